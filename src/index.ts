@@ -1,4 +1,31 @@
 export { findEventsTool } from './tools/findEvents';
 export { findEventRecommendationsTool } from './tools/findEventRecommendations';
 export { findPerformerRecommendationsTool } from './tools/findPerformerRecommendations';
-export { retrieveEventVenueInformationTool } from './tools/retrieveEventVenueInformation';
\ No newline at end of file
+export { retrieveEventVenueInformationTool } from './tools/retrieveEventVenueInformation';
+export { searchVenuesTool } from './tools/searchVenues';
+export { getVenueCalendarTool } from './tools/getVenueCalendar';
+export { getEventTool } from './tools/getEvent';
+export { getPerformerTool } from './tools/getPerformer';
+export { analyzeEventPricesTool } from './tools/analyzeEventPrices';
+export { generateEventLinkTool } from './tools/generateEventLink';
+export { listCategoriesTool } from './tools/listCategories';
+export { createLruCache, setResponseCache, getCacheStats } from './shared/cache';
+export type { ResponseCache, CacheStats } from './shared/cache';
+export { createTokenBucket, setRateLimiter } from './shared/rateLimit';
+export type { RateLimiter, LimiterClock } from './shared/rateLimit';
+export { setCassetteConfig, getCassetteConfig, CassetteMissError } from './shared/cassette';
+export type { CassetteMode, CassetteConfig } from './shared/cassette';
+export { ToolError, classifyError, toolErrorResult } from './shared/errors';
+export type { ErrorCode, FieldError } from './shared/errors';
+export { workflows, exampleGroups } from './prompts/catalog';
+export type { Workflow, ExampleGroup } from './prompts/catalog';
+export { eventResource } from './resources/eventResource';
+export { performerResource } from './resources/performerResource';
+export { venueResource } from './resources/venueResource';
+export { cacheStatsResource, CACHE_STATS_URI } from './resources/cacheStatsResource';
+export { eventUri, performerUri, venueUri, setMaxRecentResources } from './shared/resources';
+export { CondensedEventSchema, CondensedPerformerSchema, CondensedVenueSchema, CondensedPricingSchema, PageInfoShape, ResolvedDatesSchema, FilteredOutSchema } from './schemas/outputModels';
+export { resolveWhen, applyWhen, setClock } from './shared/dates';
+export type { ResolvedDateRange, Clock } from './shared/dates';
+export { applyLocalWindow, filterByLocalTime } from './shared/localFilters';
+export type { DayFilter, TimeOfDay, LocalFilterParams } from './shared/localFilters';
\ No newline at end of file
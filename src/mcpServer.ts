@@ -0,0 +1,162 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createServer, Server } from 'http';
+import { randomUUID } from 'crypto';
+import { ZodRawShape } from 'zod';
+import { ListResourcesRequestSchema, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { findEventsTool } from './tools/findEvents.js';
+import { findEventRecommendationsTool } from './tools/findEventRecommendations.js';
+import { findPerformerRecommendationsTool } from './tools/findPerformerRecommendations.js';
+import { retrieveEventVenueInformationTool } from './tools/retrieveEventVenueInformation.js';
+import { searchVenuesTool } from './tools/searchVenues.js';
+import { getVenueCalendarTool } from './tools/getVenueCalendar.js';
+import { getEventTool } from './tools/getEvent.js';
+import { getPerformerTool } from './tools/getPerformer.js';
+import { analyzeEventPricesTool } from './tools/analyzeEventPrices.js';
+import { generateEventLinkTool } from './tools/generateEventLink.js';
+import { listCategoriesTool } from './tools/listCategories.js';
+import { eventResource } from './resources/eventResource.js';
+import { performerResource } from './resources/performerResource.js';
+import { venueResource } from './resources/venueResource.js';
+import { cacheStatsResource } from './resources/cacheStatsResource.js';
+import { systemInstructions, workflowPrompts } from './prompts/index.js';
+import { createRecentResources, linkedEntities, RESOURCE_MIME_TYPE } from './shared/resources.js';
+
+const tools = [
+  findEventsTool,
+  findEventRecommendationsTool,
+  findPerformerRecommendationsTool,
+  retrieveEventVenueInformationTool,
+  searchVenuesTool,
+  getVenueCalendarTool,
+  getEventTool,
+  getPerformerTool,
+  analyzeEventPricesTool,
+  generateEventLinkTool,
+  listCategoriesTool,
+];
+
+/**
+ * The SDK validates arguments against the registered inputSchema before the
+ * handler runs and answers bad ones with a bare JSON-RPC error. Each field
+ * here falls back to the value it was given instead, so tools/list still shows
+ * the real schema while the handler's own parse reports the problem as a
+ * VALIDATION_ERROR result with details.fields.
+ */
+function deferValidation(shape: ZodRawShape): ZodRawShape {
+  return Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.catch((context: { input: unknown }) => context.input)]));
+}
+
+/**
+ * Create the SeatGeek MCP server with every tool registered, ready to be
+ * connected to a transport.
+ */
+export function createMcpServer(): McpServer {
+  const mcpServer = new McpServer({
+    name: 'seatgeek',
+    version: '0.1.0',
+  }, {
+    instructions: systemInstructions,
+  });
+
+  // Entities returned by this instance's tools, listed by resources/list
+  const recentResources = createRecentResources();
+
+  // Register tools
+  for (const tool of tools) {
+    mcpServer.registerTool(tool.name, {
+      description: tool.description,
+      inputSchema: deferValidation(tool.inputSchema),
+      outputSchema: tool.outputSchema,
+    }, async (args: any, extra: any) => {
+      const result = await tool.handler(args, extra);
+      recentResources.remember(linkedEntities(result));
+      return result;
+    });
+  }
+
+  // Register workflow prompts
+  for (const prompt of workflowPrompts) {
+    mcpServer.registerPrompt(prompt.name, {
+      title: prompt.title,
+      description: prompt.description,
+      argsSchema: prompt.argsSchema,
+    }, prompt.handler);
+  }
+
+  // Register resource templates
+  for (const resource of [eventResource, performerResource, venueResource]) {
+    mcpServer.registerResource(resource.name, new ResourceTemplate(resource.uriTemplate, { list: undefined }), {
+      title: resource.title,
+      description: resource.description,
+      mimeType: RESOURCE_MIME_TYPE,
+    }, resource.read);
+  }
+
+  mcpServer.registerResource(cacheStatsResource.name, cacheStatsResource.uri, {
+    title: cacheStatsResource.title,
+    description: cacheStatsResource.description,
+    mimeType: RESOURCE_MIME_TYPE,
+  }, cacheStatsResource.read);
+
+  // McpServer lists template resources without paging, so resources/list is
+  // served here instead: the entities tools returned most recently, newest first
+  mcpServer.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const cursor = request.params?.cursor;
+    const before = cursor === undefined ? null : Number(cursor);
+    if (before !== null && (!Number.isInteger(before) || before <= 0)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor "${cursor}"`);
+    }
+
+    const page = recentResources.page(before);
+    return {
+      resources: page.entities.map(entity => ({ ...entity, mimeType: RESOURCE_MIME_TYPE })),
+      ...(page.next !== null ? { nextCursor: String(page.next) } : {}),
+    };
+  });
+
+  return mcpServer;
+}
+
+/**
+ * Serve an MCP server over Streamable HTTP. Resolves with the HTTP server once
+ * it is listening; pass port 0 to pick a free port.
+ */
+export async function startHttpServer(mcpServer: McpServer, port: number): Promise<Server> {
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+  });
+
+  // Create HTTP server
+  const server = createServer(async (req, res) => {
+    try {
+      // Handle CORS preflight
+      if (req.method === 'OPTIONS') {
+        res.writeHead(200, {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+        });
+        res.end();
+        return;
+      }
+
+      // Let the transport handle the request
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error('Error handling request:', error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Internal server error' }));
+    }
+  });
+
+  // Connect the MCP server to the transport
+  await mcpServer.connect(transport);
+
+  // Start the HTTP server
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve());
+  });
+  return server;
+}
@@ -0,0 +1,312 @@
+/**
+ * Catalog of how the tools are used: single-call examples grouped by topic, and
+ * multi-step workflows. Both the system instructions and the MCP prompts are
+ * rendered from here, so the examples the model reads and the prompts clients
+ * invoke cannot drift apart.
+ */
+
+export interface ToolExample {
+  title: string;
+  // What the user might say
+  request: string;
+  tool: string;
+  args: Record<string, unknown>;
+  // Shown after the args, e.g. to replace a placeholder id
+  note?: string;
+}
+
+export interface ExampleGroup {
+  heading: string;
+  intro?: string;
+  examples: ToolExample[];
+}
+
+export interface WorkflowArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface WorkflowStep {
+  tool: string;
+  // "{name}" is replaced with the prompt argument; args whose argument was not
+  // given are dropped. "<...>" marks values to take from earlier results.
+  args: Record<string, unknown>;
+  purpose: string;
+}
+
+export interface Workflow {
+  name: string;
+  title: string;
+  description: string;
+  arguments: WorkflowArgument[];
+  // The user's request. "[...]" sections are dropped when an argument inside them was not given.
+  request: string;
+  steps: WorkflowStep[];
+  // How to present the results once the steps have run
+  finish: string;
+}
+
+export const exampleGroups: ExampleGroup[] = [
+  {
+    heading: 'Event Search Examples',
+    examples: [
+      { title: 'Artist-specific search', request: 'Find concerts by The Weeknd', tool: 'find_events', args: { q: 'The Weeknd' } },
+      { title: 'Location + time search', request: 'Events in New York City next month', tool: 'find_events', args: { venue_city: 'New York', when: 'next month' } },
+      { title: 'Artist + location search', request: 'Upcoming shows by Taylor Swift in California', tool: 'find_events', args: { q: 'Taylor Swift', venue_state: 'CA' } },
+      { title: 'Venue-specific search', request: 'Concerts at Madison Square Garden', tool: 'get_venue_calendar', args: { venue_slug: 'madison-square-garden' } },
+      { title: 'Time-based search', request: 'Events in Los Angeles in the next 12 weeks', tool: 'find_events', args: { venue_city: 'Los Angeles', when: 'next 12 weeks' } },
+    ],
+  },
+  {
+    heading: 'Event Recommendation Examples',
+    examples: [
+      { title: 'Artist-based recommendations', request: 'Recommend events similar to Taylor Swift', tool: 'find_event_recommendations', args: { q: 'Taylor Swift' } },
+      { title: 'Location-based recommendations', request: 'Recommend events near me', tool: 'find_event_recommendations', args: { geoip: true } },
+    ],
+  },
+  {
+    heading: 'Performer Recommendation Examples',
+    examples: [
+      { title: 'Performer recommendations based on an event', request: 'Find artists similar to performers at Coachella', tool: 'find_performer_recommendations', args: { event_q: 'Coachella' } },
+      { title: 'Performer recommendations based on a performer', request: 'Find artists similar to The Weeknd', tool: 'find_performer_recommendations', args: { performer_q: 'The Weeknd' } },
+    ],
+  },
+  {
+    heading: 'Venue Information Examples',
+    intro: 'This should come from a previous search where an event ID is present.',
+    examples: [
+      { title: 'Seating information', request: 'Get venue details for the Taylor Swift concert', tool: 'retrieve_event_venue_information', args: { event_id: 123456 }, note: 'Replace with actual event ID' },
+    ],
+  },
+  {
+    heading: 'Venue Search Examples',
+    examples: [
+      { title: 'City venue search', request: 'What venues are in Austin?', tool: 'search_venues', args: { city: 'Austin', state: 'TX' } },
+      { title: 'Named venue lookup', request: 'Where is the Ryman?', tool: 'search_venues', args: { q: 'Ryman' } },
+      { title: 'Venue calendar', request: 'What\'s on at the Ryman next month?', tool: 'get_venue_calendar', args: { venue_id: 1234, when: 'next month' }, note: 'Replace with the id from search_venues' },
+    ],
+  },
+  {
+    heading: 'Detail Lookup Examples',
+    examples: [
+      { title: 'Event status check', request: 'Is that Taylor Swift show still on?', tool: 'get_event', args: { event_id: 123456 }, note: 'Replace with actual event ID' },
+      { title: 'Performer lookup', request: 'Tell me about Phoebe Bridgers and her next shows', tool: 'get_performer', args: { performer_slug: 'phoebe-bridgers', upcoming_events: 5 } },
+    ],
+  },
+  {
+    heading: 'Price Examples',
+    examples: [
+      { title: 'Budget search', request: 'Concerts in Chicago under $50', tool: 'find_events', args: { venue_city: 'Chicago', max_price: 50 } },
+      { title: 'Cheapest way in', request: 'What\'s the cheapest way to see one of these shows?', tool: 'analyze_event_prices', args: { event_ids: [123456, 234567] }, note: 'Replace with actual event IDs' },
+    ],
+  },
+  {
+    heading: 'Link Examples',
+    examples: [
+      { title: 'Purchase link', request: 'Send me a link to buy 2 tickets for that show', tool: 'generate_event_link', args: { event_id: 123456, quantity: 2 }, note: 'Replace with actual event ID' },
+    ],
+  },
+  {
+    heading: 'Category Examples',
+    examples: [
+      { title: 'Category search', request: 'Comedy shows in Chicago', tool: 'find_events', args: { taxonomy: 'comedy', venue_city: 'Chicago' } },
+      { title: 'Category lookup', request: 'What kinds of events can I search for?', tool: 'list_categories', args: {} },
+    ],
+  },
+  {
+    heading: 'Geolocation Examples',
+    examples: [
+      { title: 'Radius search', request: 'Concerts within 30 miles of 94110', tool: 'find_events', args: { taxonomy: 'concert', postal_code: '94110', range: '30mi' } },
+      { title: 'Performer near the user', request: 'Phoebe Bridgers near me', tool: 'find_events', args: { q: 'Phoebe Bridgers', geoip: true } },
+      { title: 'Closest tour date', request: 'What\'s the closest show on Phoebe Bridgers\' tour to 94110?', tool: 'find_events', args: { q: 'Phoebe Bridgers', postal_code: '94110', range: '3000mi', sort: 'distance', fetch_all: true } },
+    ],
+  },
+  {
+    heading: 'Sorting Examples',
+    examples: [
+      { title: 'Soonest shows', request: 'When are Taylor Swift\'s next shows?', tool: 'find_events', args: { q: 'Taylor Swift', sort: 'date_asc' } },
+      { title: 'Cheapest first', request: 'Cheapest NBA games in Los Angeles', tool: 'find_events', args: { taxonomy: 'nba', venue_city: 'Los Angeles', sort: 'lowest_price' } },
+    ],
+  },
+];
+
+export const workflows: Workflow[] = [
+  {
+    name: 'plan_night_out',
+    title: 'Plan a night out',
+    description: 'Find the best events in a city on a given date, compare ticket prices and link the chosen one.',
+    arguments: [
+      { name: 'city', description: 'City to go out in, e.g. "Chicago"', required: true },
+      { name: 'date', description: 'Date of the night out, e.g. "2026-02-14", "friday" or "tomorrow"', required: true },
+    ],
+    request: 'Plan a night out in {city} on {date}.',
+    steps: [
+      { tool: 'find_events', args: { venue_city: '{city}', when: '{date}', sort: 'popularity', per_page: 10, format: 'markdown' }, purpose: 'see what is on that day, most popular first' },
+      { tool: 'analyze_event_prices', args: { event_ids: '<ids of the 3-5 most promising events from step 1>' }, purpose: 'compare ticket prices for the shortlist' },
+      { tool: 'generate_event_link', args: { event_id: '<id of the event the user picks>', quantity: 2 }, purpose: 'give the user a link to buy tickets' },
+    ],
+    finish: 'Suggest two or three options with start time, venue and cheapest price, and ask which one to book before sharing the purchase link.',
+  },
+  {
+    name: 'find_cheapest_show',
+    title: 'Find the cheapest show',
+    description: 'Find the cheapest upcoming show for a performer, optionally within one state.',
+    arguments: [
+      { name: 'performer', description: 'Performer name, e.g. "Phoebe Bridgers"', required: true },
+      { name: 'region', description: 'Two-letter US state code to search in, e.g. "CA". Leave out to search everywhere.', required: false },
+    ],
+    request: 'Find the cheapest way to see {performer}[ in {region}].',
+    steps: [
+      { tool: 'find_events', args: { q: '{performer}', venue_state: '{region}', sort: 'lowest_price', per_page: 10 }, purpose: 'find their upcoming shows, cheapest first' },
+      { tool: 'analyze_event_prices', args: { event_ids: '<ids of the events from step 1>' }, purpose: 'check the cheapest entry and listing depth of each show' },
+      { tool: 'generate_event_link', args: { event_id: '<id of the cheapest event>' }, purpose: 'link the cheapest show' },
+    ],
+    finish: 'Report the cheapest show with its date, venue and price, mention close runners-up, and include the purchase link.',
+  },
+  {
+    name: 'compare_tour_dates',
+    title: 'Compare tour dates',
+    description: 'Compare every upcoming date on a performer\'s tour by location and price.',
+    arguments: [
+      { name: 'performer', description: 'Performer name, e.g. "Taylor Swift"', required: true },
+    ],
+    request: 'Compare the upcoming tour dates for {performer}.',
+    steps: [
+      { tool: 'find_events', args: { q: '{performer}', sort: 'date_asc', fetch_all: true }, purpose: 'list every upcoming date in order' },
+      { tool: 'analyze_event_prices', args: { event_ids: '<up to 20 event ids from step 1>' }, purpose: 'compare prices across the dates' },
+    ],
+    finish: 'Show a table of date, city, venue, cheapest entry and median price, and point out the best-value dates.',
+  },
+  {
+    name: 'similar_artists_touring_near',
+    title: 'Similar artists touring nearby',
+    description: 'Find artists similar to a performer who have shows near a postal code.',
+    arguments: [
+      { name: 'performer', description: 'Performer the user already likes, e.g. "The Weeknd"', required: true },
+      { name: 'postal_code', description: 'Postal code to search around, e.g. "94110"', required: true },
+    ],
+    request: 'Find artists similar to {performer} who are playing near {postal_code}.',
+    steps: [
+      { tool: 'find_performer_recommendations', args: { performer_q: '{performer}', per_page: 10 }, purpose: 'find similar artists' },
+      { tool: 'find_event_recommendations', args: { q: '{performer}', postal_code: '{postal_code}', range: '50mi', sort: 'distance' }, purpose: 'find recommended events near the postal code' },
+      { tool: 'find_events', args: { q: '<name of a recommended artist from step 1>', postal_code: '{postal_code}', range: '100mi', sort: 'distance' }, purpose: 'check nearby dates for the top recommended artists missing from step 2' },
+    ],
+    finish: 'List the similar artists that have shows nearby, with date, venue, distance and cheapest price.',
+  },
+];
+
+/**
+ * Format tool args the way they appear in the instructions, e.g. {"q": "The Weeknd"}.
+ */
+export function formatArgs(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatArgs).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${formatArgs(item)}`).join(', ')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The "Common Query Patterns" examples, numbered across all groups.
+ */
+export function renderExamples(): string {
+  let number = 0;
+  return exampleGroups.map(group => {
+    const lines = [`### ${group.heading}`];
+    if (group.intro) {
+      lines.push(group.intro);
+    }
+    const examples = group.examples.map(example => {
+      number++;
+      const indent = ' '.repeat(`${number}. `.length);
+      const note = example.note ? `  // ${example.note}` : '';
+      return [
+        `${number}. **${example.title}**: "${example.request}"`,
+        `${indent}- Tool: ${example.tool}`,
+        `${indent}- Args: ${formatArgs(example.args)}${note}`,
+      ].join('\n');
+    });
+    return `${lines.join('\n')}\n${examples.join('\n\n')}`;
+  }).join('\n\n');
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+function hasValue(values: Record<string, string | undefined>, name: string): boolean {
+  return values[name] !== undefined && values[name] !== '';
+}
+
+/**
+ * Replace {name} placeholders with argument values. Optional "[...]" sections
+ * are dropped when any argument inside them is missing.
+ */
+export function fillTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(/\[([^\]]*)\]/g, (_, section: string) =>
+      [...section.matchAll(PLACEHOLDER)].every(match => hasValue(values, match[1])) ? section : '')
+    .replace(PLACEHOLDER, (match, name: string) => hasValue(values, name) ? values[name]! : match);
+}
+
+/**
+ * Fill a step's args, dropping the ones that refer to an argument that was not given.
+ */
+export function fillStepArgs(args: Record<string, unknown>, values: Record<string, string | undefined>): Record<string, unknown> {
+  const filled: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (typeof value !== 'string') {
+      filled[key] = value;
+      continue;
+    }
+    const names = [...value.matchAll(PLACEHOLDER)].map(match => match[1]);
+    if (names.every(name => hasValue(values, name))) {
+      filled[key] = fillTemplate(value, values);
+    }
+  }
+  return filled;
+}
+
+function renderSteps(workflow: Workflow, values: Record<string, string | undefined>): string {
+  return workflow.steps
+    .map((step, index) => `${index + 1}. Call ${step.tool} with ${formatArgs(fillStepArgs(step.args, values))} to ${step.purpose}`)
+    .join('\n');
+}
+
+/**
+ * The workflows section of the system instructions, with the argument
+ * placeholders left in.
+ */
+export function renderWorkflows(): string {
+  return workflows.map(workflow => {
+    const placeholders = Object.fromEntries(workflow.arguments.map(argument => [argument.name, `{${argument.name}}`]));
+    return [
+      `### ${workflow.name}`,
+      `${workflow.description} Available as the ${workflow.name} prompt.`,
+      renderSteps(workflow, placeholders),
+      `Then: ${workflow.finish}`,
+    ].join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * The message sequence for a workflow prompt: the user's request, the plan of
+ * tool calls, and the instruction to carry it out.
+ */
+export function workflowMessages(workflow: Workflow, values: Record<string, string | undefined>) {
+  return [
+    {
+      role: 'user' as const,
+      content: { type: 'text' as const, text: fillTemplate(workflow.request, values) },
+    },
+    {
+      role: 'assistant' as const,
+      content: { type: 'text' as const, text: `Here is the plan:\n${renderSteps(workflow, values)}` },
+    },
+    {
+      role: 'user' as const,
+      content: { type: 'text' as const, text: `Go ahead. Run the steps in order, replacing each <...> value with what the earlier results returned. ${workflow.finish}` },
+    },
+  ];
+}
@@ -0,0 +1,16 @@
+import { getCacheStats } from '../shared/cache.js';
+import { resourceContents } from '../shared/resources.js';
+
+export const CACHE_STATS_URI = 'seatgeek://server/cache-stats';
+
+/**
+ * Response cache counters as a JSON document, so they can be checked while the
+ * server runs rather than only in the shutdown log.
+ */
+export const cacheStatsResource = {
+  name: 'cache-stats',
+  uri: CACHE_STATS_URI,
+  title: 'Response cache stats',
+  description: 'Hits, misses, bypasses and evictions of the upstream response cache since the server started, plus its current size.',
+  read: async (uri: URL) => resourceContents(uri, getCacheStats()),
+};
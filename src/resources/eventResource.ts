@@ -0,0 +1,32 @@
+import { fetchJson, EVENTS_ENDPOINT } from '../shared/core.js';
+import { ToolError, resourceReadError } from '../shared/errors.js';
+import { condenseEventData } from '../shared/helpers.js';
+import { EVENT_URI_TEMPLATE, resourceContents } from '../shared/resources.js';
+
+/**
+ * A single event as a JSON document.
+ *
+ * Calls GET /events/{id} and returns the condensed event, the same shape as
+ * get_event and the events in find_events results.
+ */
+export const eventResource = {
+  name: 'event',
+  uriTemplate: EVENT_URI_TEMPLATE,
+  title: 'SeatGeek event',
+  description: 'The latest details for a SeatGeek event by id: date and time, status, venue, performers and prices.',
+  read: async (uri: URL, variables: Record<string, string | string[]>) => {
+    try {
+      const id = Number(variables.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        throw new ToolError('VALIDATION_ERROR', `Invalid event id "${variables.id}"`, {
+          fields: [{ field: 'id', message: 'Expected a numeric event id' }],
+        });
+      }
+
+      const data = await fetchJson(`${EVENTS_ENDPOINT}/${id}`, {});
+      return resourceContents(uri, condenseEventData(data));
+    } catch (error) {
+      throw resourceReadError(error, uri.href);
+    }
+  },
+};
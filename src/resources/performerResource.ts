@@ -0,0 +1,30 @@
+import { fetchJson, PERFORMERS_ENDPOINT } from '../shared/core.js';
+import { ToolError, resourceReadError } from '../shared/errors.js';
+import { condensePerformerData } from '../shared/helpers.js';
+import { PERFORMER_URI_TEMPLATE, resourceContents } from '../shared/resources.js';
+
+/**
+ * A single performer as a JSON document.
+ *
+ * Calls GET /performers?slug= and returns the condensed performer.
+ */
+export const performerResource = {
+  name: 'performer',
+  uriTemplate: PERFORMER_URI_TEMPLATE,
+  title: 'SeatGeek performer',
+  description: 'A SeatGeek performer by slug: name, genres, popularity and number of upcoming events.',
+  read: async (uri: URL, variables: Record<string, string | string[]>) => {
+    try {
+      const slug = decodeURIComponent(String(variables.slug));
+      const data = await fetchJson(PERFORMERS_ENDPOINT, { slug: slug });
+      const performer = (data.performers || [])[0];
+      if (!performer) {
+        throw new ToolError('NOT_FOUND', `No performer found with slug "${slug}"`);
+      }
+
+      return resourceContents(uri, condensePerformerData(performer));
+    } catch (error) {
+      throw resourceReadError(error, uri.href);
+    }
+  },
+};
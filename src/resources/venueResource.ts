@@ -0,0 +1,31 @@
+import { fetchJson, VENUES_ENDPOINT } from '../shared/core.js';
+import { ToolError, resourceReadError } from '../shared/errors.js';
+import { condenseVenueData } from '../shared/helpers.js';
+import { VENUE_URI_TEMPLATE, resourceContents } from '../shared/resources.js';
+
+/**
+ * A single venue as a JSON document.
+ *
+ * Calls GET /venues/{id} and returns the condensed venue.
+ */
+export const venueResource = {
+  name: 'venue',
+  uriTemplate: VENUE_URI_TEMPLATE,
+  title: 'SeatGeek venue',
+  description: 'A SeatGeek venue by id: name, address, location, capacity and timezone.',
+  read: async (uri: URL, variables: Record<string, string | string[]>) => {
+    try {
+      const id = Number(variables.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        throw new ToolError('VALIDATION_ERROR', `Invalid venue id "${variables.id}"`, {
+          fields: [{ field: 'id', message: 'Expected a numeric venue id' }],
+        });
+      }
+
+      const data = await fetchJson(`${VENUES_ENDPOINT}/${id}`, {});
+      return resourceContents(uri, condenseVenueData(data));
+    } catch (error) {
+      throw resourceReadError(error, uri.href);
+    }
+  },
+};
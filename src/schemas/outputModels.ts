@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+// Output schemas for tool results. These mirror the condensed shapes built in
+// shared/helpers.ts and are registered as each tool's outputSchema.
+
+// Condensed performer schema
+export const CondensedPerformerSchema = z.object({
+  id: z.number().nullable(),
+  name: z.string().nullable(),
+  short_name: z.string().nullable(),
+  slug: z.string().nullable(),
+  url: z.string().nullable(),
+  image: z.string().nullable(),
+  genres: z.array(z.string()),
+  popularity: z.number().nullable(),
+  num_upcoming_events: z.number().nullable(),
+});
+
+// Condensed venue schema
+export const CondensedVenueSchema = z.object({
+  id: z.number().nullable(),
+  name: z.string().nullable(),
+  slug: z.string().nullable(),
+  display_location: z.string().nullable(),
+  address: z.string().nullable(),
+  extended_address: z.string().nullable(),
+  capacity: z.number().nullable(),
+  url: z.string().nullable(),
+  timezone: z.string().nullable(),
+  lat: z.number().nullable(),
+  lon: z.number().nullable(),
+});
+
+// Condensed pricing schema
+export const CondensedPricingSchema = z.object({
+  lowest_price: z.number().nullable(),
+  median_price: z.number().nullable(),
+  average_price: z.number().nullable(),
+  highest_price: z.number().nullable(),
+  listing_count: z.number().nullable(),
+});
+
+// Condensed event schema
+export const CondensedEventSchema = z.object({
+  id: z.number(),
+  title: z.string().nullable(),
+  short_title: z.string().nullable(),
+  type: z.string().nullable(),
+  status: z.string().nullable(),
+  url: z.string().nullable(),
+  datetime_local: z.string().nullable(),
+  datetime_utc: z.string().nullable(),
+  enddatetime_utc: z.string().nullable(),
+  date_tbd: z.boolean().describe('True when the date has not been announced yet'),
+  time_tbd: z.boolean().describe('True when the date is known but the start time is not'),
+  performers: z.array(CondensedPerformerSchema),
+  venue: CondensedVenueSchema.nullable(),
+  popularity: z.number().nullable(),
+  score: z.number().nullable().describe('SeatGeek relevance score; sort "popularity" orders by it, highest first'),
+  pricing: CondensedPricingSchema.nullable(),
+  taxonomies: z.array(z.string()),
+  distance: z.number().nullable().optional().describe('Distance from the search location, in the requested distance_unit'),
+});
+
+// Pagination fields shared by every paged result
+export const PageInfoShape = {
+  total: z.number().nullable().describe('Total number of matching results reported by SeatGeek'),
+  page: z.number(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable().describe('Pass as cursor to fetch the next page'),
+};
+
+// Date range resolved from a tool's when parameter
+export const ResolvedDatesSchema = z.object({
+  when: z.string(),
+  timezone: z.string().describe('IANA timezone the phrase was resolved in'),
+  start_local: z.string(),
+  end_local: z.string(),
+  start_utc: z.string().describe('Sent upstream as datetime_utc.gte'),
+  end_utc: z.string().describe('Sent upstream as datetime_utc.lte'),
+}).describe('Echo of how when was resolved, present only when when was given');
+
+// Count reported by tools that filter events on their local time after fetching
+export const FilteredOutSchema = z.number().optional().describe('Events dropped from this page by start_local/end_local, days_of_week or times_of_day. total and paging still count them, so a page can hold fewer than per_page events, or none, while has_more is true; keep following next_cursor.');
+
+// Type exports
+export type CondensedPerformerOutput = z.infer<typeof CondensedPerformerSchema>;
+export type CondensedVenueOutput = z.infer<typeof CondensedVenueSchema>;
+export type CondensedEventOutput = z.infer<typeof CondensedEventSchema>;
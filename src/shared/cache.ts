@@ -0,0 +1,120 @@
+/**
+ * Pluggable response cache used by fetchJson. The default implementation is an
+ * in-memory LRU; any object implementing ResponseCache can be swapped in with
+ * setResponseCache (or null to disable caching).
+ */
+export interface ResponseCache {
+  get(key: string): any | undefined;
+  set(key: string, value: any, ttlMs: number): void;
+  clear(): void;
+  readonly size: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  bypasses: number;
+  evictions: number;
+  size: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+const stats = { hits: 0, misses: 0, bypasses: 0, evictions: 0 };
+
+/**
+ * In-memory cache with per-entry TTLs, evicting the least recently used entry
+ * once maxEntries is reached. now is the clock TTLs are measured against.
+ */
+export function createLruCache(maxEntries: number = DEFAULT_MAX_ENTRIES, now: () => number = Date.now): ResponseCache {
+  // Map iteration order is insertion order, so re-inserting on read keeps the oldest entry first
+  const entries = new Map<string, { value: any; expiresAt: number }>();
+
+  return {
+    get(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key: string, value: any, ttlMs: number) {
+      if (ttlMs <= 0 || maxEntries <= 0) {
+        return;
+      }
+      entries.delete(key);
+      while (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+        stats.evictions++;
+      }
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+    },
+    clear() {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+function createDefaultCache(): ResponseCache | null {
+  if (process.env.SEATGEEK_CACHE === 'off') {
+    return null;
+  }
+  const maxEntries = parseInt(process.env.SEATGEEK_CACHE_MAX_ENTRIES || `${DEFAULT_MAX_ENTRIES}`, 10);
+  return createLruCache(Number.isNaN(maxEntries) ? DEFAULT_MAX_ENTRIES : maxEntries);
+}
+
+let activeCache: ResponseCache | null = createDefaultCache();
+
+/**
+ * Replace the response cache, or pass null to disable caching.
+ */
+export function setResponseCache(cache: ResponseCache | null): void {
+  activeCache = cache;
+}
+
+export function getResponseCache(): ResponseCache | null {
+  return activeCache;
+}
+
+/**
+ * Cache key for a request: the url plus its query with empty values dropped and
+ * keys sorted, so equivalent queries share an entry.
+ */
+export function cacheKey(url: string, query: Record<string, any>): string {
+  const normalized = Object.keys(query)
+    .filter(key => query[key] !== null && query[key] !== undefined && query[key] !== '')
+    .sort()
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(query[key]))}`)
+    .join('&');
+  return normalized ? `${url}?${normalized}` : url;
+}
+
+export function recordCacheHit(): void {
+  stats.hits++;
+}
+
+export function recordCacheMiss(): void {
+  stats.misses++;
+}
+
+export function recordCacheBypass(): void {
+  stats.bypasses++;
+}
+
+/**
+ * Hit/miss counters since startup, for tuning TTLs and the size cap. Also served
+ * as the seatgeek://server/cache-stats resource.
+ */
+export function getCacheStats(): CacheStats {
+  return { ...stats, size: activeCache ? activeCache.size : 0 };
+}
@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { cacheKey } from './cache.js';
+
+/**
+ * Record/replay of upstream responses for offline development, tests and demos.
+ * In "record" mode every upstream response is written to a fixture file; in
+ * "replay" mode responses are served from those files and a request with no
+ * recording throws instead of reaching the network.
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  dir: string;
+}
+
+export interface CassetteEntry {
+  request: {
+    method: 'GET';
+    path: string;
+    query: Record<string, any>;
+  };
+  response: {
+    status: number;
+    data: any;
+  };
+}
+
+const DEFAULT_CASSETTE_DIR = 'fixtures/cassettes';
+
+export class CassetteMissError extends Error {
+  constructor(public readonly key: string, public readonly file: string) {
+    super(`No recorded response for GET ${key} (expected ${file}). Re-record with SEATGEEK_CASSETTE=record.`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+function parseMode(value: string | undefined): CassetteMode {
+  const mode = (value || 'off').toLowerCase();
+  if (mode === 'record' || mode === 'replay' || mode === 'off') {
+    return mode;
+  }
+  throw new Error(`Invalid SEATGEEK_CASSETTE "${value}". Expected "record", "replay" or "off".`);
+}
+
+let activeConfig: CassetteConfig = {
+  mode: parseMode(process.env.SEATGEEK_CASSETTE),
+  dir: process.env.SEATGEEK_CASSETTE_DIR || DEFAULT_CASSETTE_DIR,
+};
+
+/**
+ * Replace the cassette configuration, e.g. to replay fixtures from a test.
+ */
+export function setCassetteConfig(config: Partial<CassetteConfig>): void {
+  activeConfig = { ...activeConfig, ...config };
+}
+
+export function getCassetteConfig(): CassetteConfig {
+  return { ...activeConfig };
+}
+
+/**
+ * Fixture file for a request. Recordings are keyed by the path relative to the
+ * API base and the normalized query, so they replay against any base url.
+ */
+function fixtureFile(key: string, requestPath: string): string {
+  const slug = requestPath.replace(/^\/+/, '').replace(/[^a-zA-Z0-9]+/g, '_') || 'root';
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 12);
+  return path.join(activeConfig.dir, `${slug}-${hash}.json`);
+}
+
+/**
+ * Serve a recorded response. Recorded HTTP errors are rethrown as AxiosErrors so
+ * callers handle them exactly like live ones (e.g. 404 as not found).
+ */
+export async function replayResponse(requestPath: string, query: Record<string, any>): Promise<any> {
+  const key = cacheKey(requestPath, query);
+  const file = fixtureFile(key, requestPath);
+
+  let entry: CassetteEntry;
+  try {
+    entry = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      const miss = new CassetteMissError(key, file);
+      console.error(miss.message);
+      throw miss;
+    }
+    throw error;
+  }
+
+  if (entry.response.status >= 400) {
+    const headers = new AxiosHeaders();
+    throw new AxiosError(
+      `Request failed with status code ${entry.response.status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      { headers },
+      undefined,
+      { status: entry.response.status, statusText: '', data: entry.response.data, headers: {}, config: { headers } }
+    );
+  }
+  return entry.response.data;
+}
+
+/**
+ * Write a request/response pair to its fixture file, overwriting any earlier
+ * recording of the same request.
+ */
+export async function recordResponse(requestPath: string, query: Record<string, any>, status: number, data: any): Promise<void> {
+  const key = cacheKey(requestPath, query);
+  const file = fixtureFile(key, requestPath);
+  const entry: CassetteEntry = {
+    request: { method: 'GET', path: requestPath, query: query },
+    response: { status: status, data: data },
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(entry, null, 2) + '\n');
+}
@@ -0,0 +1,37 @@
+const DEFAULT_FANOUT_CONCURRENCY = 4;
+
+/**
+ * Maximum number of concurrent upstream calls for a single fan-out, from
+ * SEATGEEK_FANOUT_CONCURRENCY.
+ */
+export function getFanoutConcurrency(): number {
+  const limit = parseInt(process.env.SEATGEEK_FANOUT_CONCURRENCY || `${DEFAULT_FANOUT_CONCURRENCY}`, 10);
+  return Number.isNaN(limit) || limit < 1 ? DEFAULT_FANOUT_CONCURRENCY : limit;
+}
+
+/**
+ * Run `fn` over every item with at most `limit` calls in flight. Like
+ * Promise.allSettled, one failure does not stop the rest; results keep input order.
+ */
+export async function mapSettledWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index]) };
+      } catch (error) {
+        results[index] = { status: 'rejected', reason: error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -5,25 +5,75 @@ dotenv.config();
 
 // Import endpoints from shared endpoints file
 import {
+  SEATGEEK_API_BASE,
   EVENTS_ENDPOINT,
   PERFORMERS_ENDPOINT,
   VENUES_ENDPOINT,
   SECTION_INFO_ENDPOINT,
-  RECOMMENDATIONS_ENDPOINT
+  RECOMMENDATIONS_ENDPOINT,
+  TAXONOMIES_ENDPOINT
 } from './endpoints.js';
 
 export {
+  SEATGEEK_API_BASE,
   EVENTS_ENDPOINT,
   PERFORMERS_ENDPOINT,
   VENUES_ENDPOINT,
   SECTION_INFO_ENDPOINT,
-  RECOMMENDATIONS_ENDPOINT
+  RECOMMENDATIONS_ENDPOINT,
+  TAXONOMIES_ENDPOINT
 };
 
+import {
+  cacheKey,
+  getResponseCache,
+  recordCacheHit,
+  recordCacheMiss,
+  recordCacheBypass
+} from './cache.js';
+import { acquireRequestSlot } from './rateLimit.js';
+import { createSingleFlight } from './singleFlight.js';
+import { getCassetteConfig, recordResponse, replayResponse } from './cassette.js';
+import { ToolError } from './errors.js';
+
 // Networking defaults
 const DEFAULT_TIMEOUT_MS = 5000;
 const MAX_RETRIES = 2;
 const DEFAULT_HEADERS = { "User-Agent": "seatgeek-mcp/0.1 (+mcp)" };
+// Longest Retry-After we will wait out before giving up on a rate-limited request
+const MAX_RETRY_AFTER_MS = 10000;
+
+// Cache TTLs: performer, venue and taxonomy data rarely changes, while event
+// listings, prices and recommendations go stale quickly
+const CACHE_TTL_MS = {
+  long: 60 * 60 * 1000,
+  medium: 10 * 60 * 1000,
+  short: 60 * 1000,
+};
+
+// Identical upstream requests in flight at the same time share one call
+const inflightRequests = createSingleFlight();
+
+export type CacheMode = 'default' | 'bypass';
+
+export interface FetchOptions {
+  // "bypass" skips the cache lookup but still stores the fresh response
+  cache?: CacheMode | null;
+}
+
+/**
+ * Cache TTL for an endpoint url. Section info is checked before events since
+ * it lives under the events path.
+ */
+function cacheTtlFor(url: string): number {
+  if (url.startsWith(SECTION_INFO_ENDPOINT)) {
+    return CACHE_TTL_MS.medium;
+  }
+  if (url.startsWith(PERFORMERS_ENDPOINT) || url.startsWith(VENUES_ENDPOINT) || url.startsWith(TAXONOMIES_ENDPOINT)) {
+    return CACHE_TTL_MS.long;
+  }
+  return CACHE_TTL_MS.short;
+}
 
 /**
  * Get SEATGEEK_CLIENT_ID from env if present.
@@ -32,10 +82,135 @@ export function getClientId(): string | undefined {
   return process.env.SEATGEEK_CLIENT_ID;
 }
 
+/**
+ * Partner tracking configuration for outbound SeatGeek links, read from env.
+ */
+export interface AffiliateConfig {
+  aid?: string;
+  rid?: string;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  trackAllLinks: boolean;
+}
+
+/**
+ * Whether an env flag is switched on: "1", "true", "yes" or "on", in any case.
+ * Anything else, including "false" and "0", counts as off.
+ */
+export function isEnvFlagSet(value: string | undefined): boolean {
+  return ['1', 'true', 'yes', 'on'].includes((value ?? '').trim().toLowerCase());
+}
+
+/**
+ * Get affiliate and UTM settings from env. When SEATGEEK_TRACK_LINKS is on,
+ * every url emitted by the condense helpers carries the tracking parameters.
+ */
+export function getAffiliateConfig(): AffiliateConfig {
+  return {
+    aid: process.env.SEATGEEK_AID || undefined,
+    rid: process.env.SEATGEEK_RID || undefined,
+    utm_source: process.env.SEATGEEK_UTM_SOURCE || undefined,
+    utm_medium: process.env.SEATGEEK_UTM_MEDIUM || undefined,
+    utm_campaign: process.env.SEATGEEK_UTM_CAMPAIGN || undefined,
+    trackAllLinks: isEnvFlagSet(process.env.SEATGEEK_TRACK_LINKS),
+  };
+}
+
+/**
+ * HTTP GET returning parsed JSON, served from the response cache when a fresh
+ * entry exists. Concurrent calls for the same url and normalized query share a
+ * single upstream request, with or without a cache; cache: "bypass" calls only
+ * share with each other.
+ */
+export async function fetchJson(url: string, query: Record<string, any>, options: FetchOptions = {}): Promise<any> {
+  const key = cacheKey(url, query);
+  // A bypass call must get a response requested after it was made, so it never
+  // joins a normal call's in-flight request, only other bypass calls
+  const flightKey = options.cache === 'bypass' ? `bypass:${key}` : key;
+  const cache = getResponseCache();
+  if (!cache) {
+    return inflightRequests.run(flightKey, () => performRequest(url, query));
+  }
+
+  if (options.cache === 'bypass') {
+    recordCacheBypass();
+  } else {
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      recordCacheHit();
+      return cached;
+    }
+    recordCacheMiss();
+  }
+
+  return inflightRequests.run(flightKey, async () => {
+    const data = await performRequest(url, query);
+    cache.set(key, data, cacheTtlFor(url));
+    return data;
+  });
+}
+
+/**
+ * Send the request upstream, or serve/record it through the cassette when
+ * record/replay mode is on.
+ */
+async function performRequest(url: string, query: Record<string, any>): Promise<any> {
+  const { mode } = getCassetteConfig();
+  if (mode === 'off') {
+    return requestJson(url, query);
+  }
+
+  const requestPath = url.startsWith(SEATGEEK_API_BASE) ? url.slice(SEATGEEK_API_BASE.length) : url;
+  if (mode === 'replay') {
+    return replayResponse(requestPath, query);
+  }
+
+  try {
+    const data = await requestJson(url, query);
+    await recordResponse(requestPath, query, 200, data);
+    return data;
+  } catch (error) {
+    // Record HTTP errors too, so e.g. a 404 replays as not found
+    const response = (error as AxiosError).response;
+    if (response) {
+      await recordResponse(requestPath, query, response.status, response.data);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Exponential backoff delay with jitter, so concurrent retries spread out
+ * instead of hitting the API again in lockstep.
+ */
+function withJitter(backoffMs: number): number {
+  return backoffMs / 2 + Math.random() * backoffMs / 2;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or an HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 /**
  * HTTP GET with retries and backoff, returning parsed JSON.
  */
-export async function fetchJson(url: string, query: Record<string, any>): Promise<any> {
+async function requestJson(url: string, query: Record<string, any>): Promise<any> {
   let backoffMs = 500;
   
   const clientId = getClientId();
@@ -49,6 +224,9 @@ export async function fetchJson(url: string, query: Record<string, any>): Promis
   
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
     try {
+      // Wait for the process-wide request budget before every attempt, retries included
+      await acquireRequestSlot();
+      
       const response = await axios.get(url, {
         params: query,
         timeout: DEFAULT_TIMEOUT_MS,
@@ -62,9 +240,9 @@ export async function fetchJson(url: string, query: Record<string, any>): Promis
       // Handle timeout
       if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
         if (attempt >= MAX_RETRIES) {
-          throw new Error(`Request timeout after ${MAX_RETRIES + 1} attempts`);
+          throw new ToolError('TIMEOUT', `Request timeout after ${MAX_RETRIES + 1} attempts`);
         }
-        await new Promise(resolve => setTimeout(resolve, backoffMs));
+        await sleep(withJitter(backoffMs));
         backoffMs *= 2;
         continue;
       }
@@ -72,9 +250,9 @@ export async function fetchJson(url: string, query: Record<string, any>): Promis
       // Handle network errors
       if (axiosError.code === 'ENOTFOUND' || axiosError.code === 'ECONNREFUSED') {
         if (attempt >= MAX_RETRIES) {
-          throw new Error(`Network error after ${MAX_RETRIES + 1} attempts`);
+          throw new ToolError('NETWORK_ERROR', `Network error after ${MAX_RETRIES + 1} attempts`);
         }
-        await new Promise(resolve => setTimeout(resolve, backoffMs));
+        await sleep(withJitter(backoffMs));
         backoffMs *= 2;
         continue;
       }
@@ -82,8 +260,19 @@ export async function fetchJson(url: string, query: Record<string, any>): Promis
       // Handle HTTP status errors
       if (axiosError.response) {
         const status = axiosError.response.status;
+        
+        // Rate limited: honor Retry-After when present, unless it asks us to wait too long
+        if (status === 429 && attempt < MAX_RETRIES) {
+          const retryAfterMs = parseRetryAfter(axiosError.response.headers?.['retry-after']);
+          if (retryAfterMs === null || retryAfterMs <= MAX_RETRY_AFTER_MS) {
+            await sleep(retryAfterMs !== null ? retryAfterMs + withJitter(100) : withJitter(backoffMs));
+            backoffMs *= 2;
+            continue;
+          }
+        }
+        
         if (status >= 500 && status < 600 && attempt < MAX_RETRIES) {
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
+          await sleep(withJitter(backoffMs));
           backoffMs *= 2;
           continue;
         }
@@ -93,5 +282,5 @@ export async function fetchJson(url: string, query: Record<string, any>): Promis
     }
   }
   
-  throw new Error(`Request failed after ${MAX_RETRIES + 1} attempts`);
+  throw new ToolError('UPSTREAM_SERVER_ERROR', `Request failed after ${MAX_RETRIES + 1} attempts`);
 }
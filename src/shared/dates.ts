@@ -0,0 +1,421 @@
+import { ToolError } from './errors.js';
+
+// Natural-language date ranges ("this weekend", "next 12 weeks") resolved
+// against an injectable clock in the user's timezone, plus the timezone helpers
+// shared with the iCalendar export.
+
+const DAY_MS = 86400000;
+const MINUTE_MS = 60000;
+
+export type Clock = () => Date;
+
+let clock: Clock = () => new Date();
+
+/**
+ * Replace the clock used to resolve relative dates, or pass null to go back to
+ * the system clock.
+ */
+export function setClock(next: Clock | null): void {
+  clock = next ?? (() => new Date());
+}
+
+export function now(): Date {
+  return clock();
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      }));
+    } catch (error) {
+      // Unknown timezone
+      formatters.set(timeZone, null);
+    }
+  }
+  return formatters.get(timeZone)!;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  return getFormatter(timeZone) !== null;
+}
+
+/**
+ * UTC offset of a timezone at an instant, in minutes east of UTC.
+ */
+export function timeZoneOffset(timeZone: string, date: Date): number {
+  const formatter = getFormatter(timeZone);
+  if (!formatter) {
+    throw new ToolError('VALIDATION_ERROR', `Unknown timezone "${timeZone}"`, {
+      fields: [{ field: 'timezone', message: 'Use an IANA timezone name, e.g. "America/Chicago"' }],
+    });
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Wall-clock time in a timezone, as a Date whose UTC fields hold the local time.
+ */
+export function toLocalTime(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + timeZoneOffset(timeZone, date) * MINUTE_MS);
+}
+
+/**
+ * Instant of a wall-clock time (a Date whose UTC fields hold the local time) in a timezone.
+ */
+export function fromLocalTime(local: Date, timeZone: string): Date {
+  const guess = local.getTime() - timeZoneOffset(timeZone, local) * MINUTE_MS;
+  // Re-check the offset at the guess, in case a DST change lies between the two
+  return new Date(local.getTime() - timeZoneOffset(timeZone, new Date(guess)) * MINUTE_MS);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Format a Date's UTC fields as YYYY-MM-DDTHH:MM:SS, the form SeatGeek uses for datetimes.
+ */
+export function formatDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * The user's timezone: the given one, else SEATGEEK_TIMEZONE, else the system timezone.
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  const resolved = timeZone || process.env.SEATGEEK_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  if (!isValidTimeZone(resolved)) {
+    throw new ToolError('VALIDATION_ERROR', `Unknown timezone "${resolved}"`, {
+      fields: [{ field: 'timezone', message: 'Use an IANA timezone name, e.g. "America/Chicago"' }],
+    });
+  }
+  return resolved;
+}
+
+export interface ResolvedDateRange {
+  when: string;
+  timezone: string;
+  start_local: string;
+  end_local: string;
+  start_utc: string;
+  end_utc: string;
+}
+
+// Local day ranges are built on Dates whose UTC fields hold the local wall-clock time
+interface LocalRange {
+  start: Date;
+  end: Date;
+  // Whether the phrase named a year, so an end before the start can roll over
+  explicitYear?: boolean;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const EVENING_HOUR = 17;
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const WEEKDAY_PATTERN = '(mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)';
+const PART_OF_DAY_PATTERN = '(?: (night|evening))?';
+
+function day(year: number, month: number, date: number): Date {
+  return new Date(Date.UTC(year, month, date));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Same day of the month `count` months later, clamped to the end of a shorter month
+function addMonths(date: Date, count: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + count;
+  const length = day(year, month + 1, 0).getUTCDate();
+  return day(year, month, Math.min(date.getUTCDate(), length));
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getTime() + DAY_MS - 1000);
+}
+
+function wholeDays(start: Date, end: Date = start): LocalRange {
+  return { start, end: endOfDay(end) };
+}
+
+function evening(date: Date): LocalRange {
+  return { start: new Date(date.getTime() + EVENING_HOUR * 3600000), end: endOfDay(date) };
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3));
+}
+
+function weekdayIndex(name: string): number {
+  return WEEKDAYS.indexOf(name.slice(0, 3));
+}
+
+function parseCount(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return NUMBER_WORDS[value] ?? null;
+}
+
+// A calendar date without a year is the next one on or after today
+function upcomingDate(today: Date, month: number, date: number, year?: number): Date | null {
+  let candidate = day(year ?? today.getUTCFullYear(), month, date);
+  if (candidate.getUTCMonth() !== month) {
+    return null;
+  }
+  if (year === undefined && candidate < today) {
+    candidate = day(today.getUTCFullYear() + 1, month, date);
+  }
+  return candidate;
+}
+
+// Monday of the week containing the date (weeks run Monday to Sunday)
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+function parseYear(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const year = Number(value);
+  return value.length === 2 ? 2000 + year : year;
+}
+
+/**
+ * Resolve one phrase (not a "between X and Y" span) to a local range.
+ */
+function parseSingle(phrase: string, today: Date): LocalRange | null {
+  let match: RegExpMatchArray | null;
+
+  if (phrase === 'today') {
+    return wholeDays(today);
+  }
+  if (phrase === 'tonight' || phrase === 'this evening' || phrase === 'today evening' || phrase === 'today night') {
+    return evening(today);
+  }
+  if (phrase === 'tomorrow') {
+    return wholeDays(addDays(today, 1));
+  }
+  if (phrase === 'tomorrow night' || phrase === 'tomorrow evening') {
+    return evening(addDays(today, 1));
+  }
+
+  // Weekends run Friday to Sunday; on a Saturday or Sunday "this weekend" starts today
+  if ((match = phrase.match(/^(this |next |coming )?weekend$/))) {
+    const weekday = today.getUTCDay();
+    const friday = weekday === 6 || weekday === 0 ? today : addDays(today, 5 - weekday);
+    const sunday = addDays(startOfWeek(today), 6);
+    return match[1]?.trim() === 'next'
+      ? wholeDays(addDays(sunday, 5), addDays(sunday, 7))
+      : wholeDays(friday, sunday);
+  }
+
+  if ((match = phrase.match(/^(this|next|coming) week$/))) {
+    const monday = startOfWeek(today);
+    return match[1] === 'next'
+      ? wholeDays(addDays(monday, 7), addDays(monday, 13))
+      : wholeDays(today, addDays(monday, 6));
+  }
+
+  if ((match = phrase.match(/^(this|next|coming) month$/))) {
+    const year = today.getUTCFullYear();
+    const month = today.getUTCMonth();
+    return match[1] === 'next'
+      ? wholeDays(day(year, month + 1, 1), addDays(day(year, month + 2, 1), -1))
+      : wholeDays(today, addDays(day(year, month + 1, 1), -1));
+  }
+
+  if (phrase === 'this year') {
+    return wholeDays(today, day(today.getUTCFullYear(), 11, 31));
+  }
+
+  // "next 12 weeks", "the next two months", "next few days" start today
+  if ((match = phrase.match(/^(?:next|coming) (\w+) (day|week|month)s?$/))) {
+    const count = match[1] === 'few' ? 3 : parseCount(match[1]);
+    if (count === null || count < 1) {
+      return null;
+    }
+    if (match[2] === 'month') {
+      // Runs up to the day before the same date, or through the end of a shorter target month
+      const target = addMonths(today, count);
+      return wholeDays(today, target.getUTCDate() < today.getUTCDate() ? target : addDays(target, -1));
+    }
+    return wholeDays(today, addDays(today, count * (match[2] === 'week' ? 7 : 1) - 1));
+  }
+
+  // "friday", "this saturday night"; "next friday" is the one in the following week
+  if ((match = phrase.match(new RegExp(`^(this |next |coming )?${WEEKDAY_PATTERN}${PART_OF_DAY_PATTERN}$`)))) {
+    const target = weekdayIndex(match[2]);
+    let date = addDays(today, (target - today.getUTCDay() + 7) % 7);
+    if (match[1]?.trim() === 'next') {
+      date = addDays(startOfWeek(today), 7 + (target + 6) % 7);
+    }
+    return match[3] ? evening(date) : wholeDays(date);
+  }
+
+  // ISO date
+  if ((match = phrase.match(new RegExp(`^(\\d{4})-(\\d{2})-(\\d{2})${PART_OF_DAY_PATTERN}$`)))) {
+    const date = day(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    if (date.getUTCMonth() !== Number(match[2]) - 1) {
+      return null;
+    }
+    return { ...(match[4] ? evening(date) : wholeDays(date)), explicitYear: true };
+  }
+
+  // US month/day[/year]
+  if ((match = phrase.match(new RegExp(`^(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?${PART_OF_DAY_PATTERN}$`)))) {
+    const year = parseYear(match[3]);
+    const date = upcomingDate(today, Number(match[1]) - 1, Number(match[2]), year);
+    if (!date) {
+      return null;
+    }
+    return { ...(match[4] ? evening(date) : wholeDays(date)), explicitYear: year !== undefined };
+  }
+
+  // "oct 3", "october 3rd, 2026", "3 october", "the 3rd of october"
+  const named = phrase.match(new RegExp(`^${MONTH_PATTERN}\\.? (\\d{1,2})(?:st|nd|rd|th)?(?:,? (\\d{4}))?${PART_OF_DAY_PATTERN}$`))
+    ?? phrase.match(new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH_PATTERN}\\.?(?:,? (\\d{4}))?${PART_OF_DAY_PATTERN}$`));
+  if (named) {
+    const [monthName, dateText] = /^\d/.test(named[1]) ? [named[2], named[1]] : [named[1], named[2]];
+    const year = parseYear(named[3]);
+    const date = upcomingDate(today, monthIndex(monthName), Number(dateText), year);
+    if (!date) {
+      return null;
+    }
+    return { ...(named[4] ? evening(date) : wholeDays(date)), explicitYear: year !== undefined };
+  }
+
+  // A whole month: "december", "next march", "october 2026"; "next march" said in March is next year's
+  if ((match = phrase.match(new RegExp(`^(this |next )?${MONTH_PATTERN}(?: (\\d{4}))?$`)))) {
+    const month = monthIndex(match[2]);
+    const passed = month < today.getUTCMonth() || (match[1] === 'next ' && month === today.getUTCMonth());
+    const year = match[3] ? Number(match[3]) : today.getUTCFullYear() + (passed ? 1 : 0);
+    const first = day(year, month, 1);
+    const last = addDays(day(year, month + 1, 1), -1);
+    return { ...wholeDays(first < today && today <= last ? today : first, last), explicitYear: match[3] !== undefined };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a phrase to a local range, including spans like "between Oct 3 and
+ * Oct 10" or "friday to sunday" that run from the start of the first part to
+ * the end of the second.
+ */
+function parsePhrase(phrase: string, today: Date): LocalRange | null {
+  const span = phrase.match(/^(?:between|from) (.+?) (?:and|to|until|through|-) (.+)$/)
+    ?? phrase.match(/^(.+?) (?:to|until|through|-|–) (.+)$/);
+  if (span) {
+    const from = parseSingle(span[1], today);
+    const to = parseSingle(span[2], today);
+    if (from && to) {
+      let end = to.end;
+      // "dec 28 to jan 3": an end without a year before the start is in the next year
+      if (end < from.start && !to.explicitYear) {
+        end = new Date(Date.UTC(end.getUTCFullYear() + 1, end.getUTCMonth(), end.getUTCDate(), end.getUTCHours(), end.getUTCMinutes(), end.getUTCSeconds()));
+      }
+      return end >= from.start ? { start: from.start, end } : null;
+    }
+  }
+
+  return parseSingle(phrase, today);
+}
+
+function normalize(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[.!?]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:in|on|for|during|over) /, '')
+    .replace(/^the /, '')
+    .replace(/ (?:and|to|until|through|-|–) the /, match => match.replace(/the $/, ''));
+}
+
+/**
+ * Resolve a natural-language date phrase ("tonight", "this weekend", "next
+ * month", "between Oct 3 and Oct 10", "the next 12 weeks") to a date range in
+ * the given timezone, relative to the clock. Ranges cover whole local days,
+ * except "tonight" and "... night" phrases, which start at 5pm.
+ */
+export function resolveWhen(when: string, timeZone?: string | null): ResolvedDateRange {
+  const zone = resolveTimeZone(timeZone);
+  const local = toLocalTime(now(), zone);
+  const today = day(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+
+  const range = parsePhrase(normalize(when), today);
+  if (!range) {
+    throw new ToolError('VALIDATION_ERROR', `Could not understand the date phrase "${when}"`, {
+      fields: [{
+        field: 'when',
+        message: 'Use a phrase like "tonight", "this weekend", "next friday", "next month", "the next 12 weeks", "Oct 3" or "between Oct 3 and Oct 10", or pass start_utc/end_utc instead',
+      }],
+    });
+  }
+
+  return {
+    when,
+    timezone: zone,
+    start_local: formatDateTime(range.start),
+    end_local: formatDateTime(range.end),
+    start_utc: formatDateTime(fromLocalTime(range.start, zone)),
+    end_utc: formatDateTime(fromLocalTime(range.end, zone)),
+  };
+}
+
+export interface DateRangeParams {
+  when?: string | null;
+  timezone?: string | null;
+  start_utc?: string | null;
+  end_utc?: string | null;
+}
+
+/**
+ * Replace start_utc/end_utc with the range resolved from when, if given.
+ * Returns the updated params and the resolved range to echo in the output.
+ */
+export function applyWhen<T extends DateRangeParams>(params: T): { params: T; resolvedDates: ResolvedDateRange | null } {
+  if (!params.when) {
+    return { params, resolvedDates: null };
+  }
+
+  const resolvedDates = resolveWhen(params.when, params.timezone);
+  return {
+    params: { ...params, start_utc: resolvedDates.start_utc, end_utc: resolvedDates.end_utc },
+    resolvedDates,
+  };
+}
+
+/**
+ * Output fields echoing the resolved range, empty when when was not given.
+ */
+export function resolvedOutput(resolvedDates: ResolvedDateRange | null): { resolved_dates?: ResolvedDateRange } {
+  return resolvedDates ? { resolved_dates: resolvedDates } : {};
+}
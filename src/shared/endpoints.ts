@@ -1,48 +1,62 @@
-import { fetchJson } from './core.js';
+import dotenv from 'dotenv';
+import { fetchJson, FetchOptions } from './core.js';
 
-// Base API and endpoints
-const SEATGEEK_API_BASE = "https://api.seatgeek.com/2";
+// Endpoints are built at load time, so make sure .env is read first
+dotenv.config();
+
+// Base API and endpoints. SEATGEEK_API_BASE points the server at another host, e.g. a local fake
+export const SEATGEEK_API_BASE = (process.env.SEATGEEK_API_BASE || "https://api.seatgeek.com/2").replace(/\/+$/, '');
 export const EVENTS_ENDPOINT = `${SEATGEEK_API_BASE}/events`;
 export const PERFORMERS_ENDPOINT = `${SEATGEEK_API_BASE}/performers`;
 export const VENUES_ENDPOINT = `${SEATGEEK_API_BASE}/venues`;
 export const SECTION_INFO_ENDPOINT = `${SEATGEEK_API_BASE}/events/section_info`;
 export const RECOMMENDATIONS_ENDPOINT = `${SEATGEEK_API_BASE}/recommendations`;
+export const TAXONOMIES_ENDPOINT = `${SEATGEEK_API_BASE}/taxonomies`;
+
+// Helper functions for common API calls. The fetch* variants throw on failure so
+// callers can report it; the search* variants log it and return no results.
+export async function fetchPerformerSearch(query: string, per_page: number = 10, page: number = 1, options: FetchOptions = {}) {
+  const performerQuery = {
+    q: query,
+    per_page: per_page,
+    page: page
+  };
+  
+  const performerData = await fetchJson(PERFORMERS_ENDPOINT, performerQuery, options);
+  return performerData.performers || [];
+}
 
-// Helper functions for common API calls
-export async function searchPerformers(query: string, per_page: number = 10, page: number = 1) {
+export async function searchPerformers(query: string, per_page: number = 10, page: number = 1, options: FetchOptions = {}) {
   try {
-    const performerQuery = {
-      q: query,
-      per_page: per_page,
-      page: page
-    };
-    
-    const performerData = await fetchJson(PERFORMERS_ENDPOINT, performerQuery);
-    return performerData.performers || [];
+    return await fetchPerformerSearch(query, per_page, page, options);
   } catch (error) {
     console.warn('Failed to lookup performer:', error);
     return [];
   }
 }
 
-export async function searchEvents(query: string, per_page: number = 10, additionalParams: Record<string, any> = {}) {
-  try {
-    const eventQuery = {
-      q: query,
-      per_page: per_page,
-      ...additionalParams
-    };
-    
-    // Drop null/undefined values to avoid noisy query strings
-    const filteredQuery: Record<string, any> = {};
-    for (const [key, value] of Object.entries(eventQuery)) {
-      if (value !== null && value !== undefined && value !== '') {
-        filteredQuery[key] = value;
-      }
+export async function fetchEventSearch(query: string, per_page: number = 10, additionalParams: Record<string, any> = {}, options: FetchOptions = {}) {
+  const eventQuery = {
+    q: query,
+    per_page: per_page,
+    ...additionalParams
+  };
+  
+  // Drop null/undefined values to avoid noisy query strings
+  const filteredQuery: Record<string, any> = {};
+  for (const [key, value] of Object.entries(eventQuery)) {
+    if (value !== null && value !== undefined && value !== '') {
+      filteredQuery[key] = value;
     }
-    
-    const eventData = await fetchJson(EVENTS_ENDPOINT, filteredQuery);
-    return eventData.events || [];
+  }
+  
+  const eventData = await fetchJson(EVENTS_ENDPOINT, filteredQuery, options);
+  return eventData.events || [];
+}
+
+export async function searchEvents(query: string, per_page: number = 10, additionalParams: Record<string, any> = {}, options: FetchOptions = {}) {
+  try {
+    return await fetchEventSearch(query, per_page, additionalParams, options);
   } catch (error) {
     console.warn('Failed to lookup event:', error);
     return [];
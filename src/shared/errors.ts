@@ -0,0 +1,176 @@
+import { AxiosError } from 'axios';
+import { ZodError } from 'zod';
+import { McpError, ErrorCode as McpErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getClientId } from './core.js';
+
+/**
+ * Error codes reported in tool error payloads, so clients can tell what went
+ * wrong without parsing messages.
+ */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'NOT_FOUND'
+  | 'UPSTREAM_CLIENT_ERROR'
+  | 'UPSTREAM_SERVER_ERROR'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'AUTH_MISSING'
+  | 'AUTH_INVALID'
+  | 'INTERNAL_ERROR';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ToolErrorInfo {
+  status?: number;
+  retryAfterSeconds?: number;
+  fields?: FieldError[];
+}
+
+/**
+ * Error with a known code, thrown by tools and by fetchJson.
+ */
+export class ToolError extends Error {
+  constructor(public readonly code: ErrorCode, message: string, public readonly info: ToolErrorInfo = {}) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+const DEFAULT_SUGGESTIONS: Record<ErrorCode, string> = {
+  VALIDATION_ERROR: 'Fix the arguments listed in details.fields and call the tool again.',
+  NOT_FOUND: 'Check the id or slug. Search again (e.g. with find_events, search_venues or get_performer) to get a current one.',
+  UPSTREAM_CLIENT_ERROR: 'SeatGeek rejected the request. Check the filter values, e.g. ISO 8601 dates and category names from list_categories, and try again.',
+  UPSTREAM_SERVER_ERROR: 'SeatGeek is having problems right now. Wait a moment and try again.',
+  RATE_LIMITED: 'SeatGeek is rate limiting requests. Wait before retrying (see details.retry_after_seconds when present) and avoid cache: "bypass".',
+  TIMEOUT: 'SeatGeek did not respond in time. Try again, or narrow the search with fewer results per page and without fetch_all.',
+  NETWORK_ERROR: 'Could not reach SeatGeek. Check the network connection and SEATGEEK_API_BASE.',
+  AUTH_MISSING: 'Set SEATGEEK_CLIENT_ID in the server environment (see .env.example) and restart the server.',
+  AUTH_INVALID: 'SeatGeek rejected the configured client id. Check SEATGEEK_CLIENT_ID and restart the server.',
+  INTERNAL_ERROR: 'Something unexpected went wrong. Try again, and report details.message if it keeps happening.',
+};
+
+function fieldErrors(error: ZodError): FieldError[] {
+  return error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(arguments)',
+    message: issue.message,
+  }));
+}
+
+function retryAfterSeconds(value: unknown): number | undefined {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/**
+ * Map any thrown value to a ToolError with the matching code.
+ */
+export function classifyError(error: unknown): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+
+  if (error instanceof ZodError) {
+    const fields = fieldErrors(error);
+    return new ToolError('VALIDATION_ERROR', `Invalid arguments: ${fields.map(field => `${field.field}: ${field.message}`).join('; ')}`, { fields });
+  }
+
+  const axiosError = error as AxiosError<any>;
+  if (axiosError?.isAxiosError || axiosError?.response) {
+    const response = axiosError.response;
+    if (!response) {
+      if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+        return new ToolError('TIMEOUT', 'SeatGeek request timed out');
+      }
+      return new ToolError('NETWORK_ERROR', `Could not reach SeatGeek: ${axiosError.message}`);
+    }
+
+    const status = response.status;
+    const upstreamMessage = typeof response.data?.message === 'string' ? response.data.message : axiosError.message;
+    if (status === 401 || status === 403) {
+      return getClientId()
+        ? new ToolError('AUTH_INVALID', `SeatGeek rejected the client id (${status}): ${upstreamMessage}`, { status })
+        : new ToolError('AUTH_MISSING', 'No SeatGeek client id is configured', { status });
+    }
+    if (status === 404) {
+      return new ToolError('NOT_FOUND', `SeatGeek returned 404: ${upstreamMessage}`, { status });
+    }
+    if (status === 429) {
+      return new ToolError('RATE_LIMITED', 'SeatGeek rate limit exceeded', {
+        status,
+        retryAfterSeconds: retryAfterSeconds(response.headers?.['retry-after']),
+      });
+    }
+    if (status >= 500) {
+      return new ToolError('UPSTREAM_SERVER_ERROR', `SeatGeek returned ${status}: ${upstreamMessage}`, { status });
+    }
+    return new ToolError('UPSTREAM_CLIENT_ERROR', `SeatGeek returned ${status}: ${upstreamMessage}`, { status });
+  }
+
+  return new ToolError('INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error occurred');
+}
+
+export interface ToolErrorContext {
+  // Short description of what failed, e.g. "Failed to fetch events"
+  summary: string;
+  endpoint?: string;
+  // Tool-specific suggestions that replace the defaults for some codes
+  suggestions?: Partial<Record<ErrorCode, string>>;
+}
+
+/**
+ * Build an MCP tool result for a failure: isError is set and the payload carries
+ * the error code, a message and a code-specific suggestion.
+ */
+export function toolErrorResult(error: unknown, context: ToolErrorContext) {
+  const classified = classifyError(error);
+  const details: Record<string, any> = {
+    error: classified.code,
+    message: classified.message,
+    timestamp: new Date().toISOString(),
+  };
+  if (context.endpoint) {
+    details.endpoint = context.endpoint;
+  }
+  if (classified.info.status !== undefined) {
+    details.status = classified.info.status;
+  }
+  if (classified.info.retryAfterSeconds !== undefined) {
+    details.retry_after_seconds = classified.info.retryAfterSeconds;
+  }
+  if (classified.info.fields) {
+    details.fields = classified.info.fields;
+  }
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({
+          error: context.summary,
+          details: details,
+          suggestion: context.suggestions?.[classified.code] ?? DEFAULT_SUGGESTIONS[classified.code]
+        }, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Map a failure while reading a resource to the JSON-RPC error returned for
+ * resources/read. Unknown entities and bad uris are invalid params, like an
+ * unknown resource uri. JSON-RPC errors carry no payload here, so the error
+ * code and suggestion go into the message.
+ */
+export function resourceReadError(error: unknown, uri: string): McpError {
+  const classified = classifyError(error);
+  const invalid = classified.code === 'NOT_FOUND' || classified.code === 'VALIDATION_ERROR';
+  return new McpError(
+    invalid ? McpErrorCode.InvalidParams : McpErrorCode.InternalError,
+    `Failed to read ${uri} (${classified.code}): ${classified.message}. ${DEFAULT_SUGGESTIONS[classified.code]}`,
+  );
+}
@@ -0,0 +1,88 @@
+import { CondensedEvent } from './helpers.js';
+import { ToolError } from './errors.js';
+
+export type DistanceUnit = 'mi' | 'km';
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+const EARTH_RADIUS = { mi: 3958.8, km: 6371.0 };
+
+/**
+ * Great-circle distance between two points using the haversine formula.
+ */
+export function haversineDistance(from: GeoPoint, to: GeoPoint, unit: DistanceUnit = 'mi'): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS[unit] * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Resolve the user's location from explicit coordinates, falling back to the
+ * geolocation SeatGeek echoes in the response meta for geoip/postal_code searches.
+ */
+export function resolveOrigin(lat: number | null | undefined, lon: number | null | undefined, meta?: any): GeoPoint | null {
+  if (lat !== null && lat !== undefined && lon !== null && lon !== undefined) {
+    return { lat, lon };
+  }
+
+  const geolocation = meta?.geolocation;
+  if (geolocation && typeof geolocation.lat === 'number' && typeof geolocation.lon === 'number') {
+    return { lat: geolocation.lat, lon: geolocation.lon };
+  }
+
+  return null;
+}
+
+export interface LocationParams {
+  sort?: string | null;
+  lat?: number | null;
+  lon?: number | null;
+  postal_code?: string | null;
+  geoip?: boolean | null;
+}
+
+function distanceSortError(message: string): ToolError {
+  return new ToolError('VALIDATION_ERROR', message, {
+    fields: [{ field: 'sort', message: 'Sorting by distance needs lat/lon, postal_code or geoip' }],
+  });
+}
+
+/**
+ * Reject sort "distance" without a user location before searching, since there
+ * would be nothing to measure from and the results would silently keep their order.
+ */
+export function checkDistanceSort(params: LocationParams): void {
+  const hasCoordinates = params.lat !== null && params.lat !== undefined && params.lon !== null && params.lon !== undefined;
+  if (params.sort === 'distance' && !hasCoordinates && !params.postal_code && !params.geoip) {
+    throw distanceSortError('sort "distance" requires a user location');
+  }
+}
+
+/**
+ * Reject sort "distance" when SeatGeek could not locate the postal_code or geoip
+ * address the search was given.
+ */
+export function requireDistanceOrigin(sort: string | null | undefined, origin: GeoPoint | null): void {
+  if (sort === 'distance' && !origin) {
+    throw distanceSortError('sort "distance" could not be applied because SeatGeek did not resolve the user location');
+  }
+}
+
+/**
+ * Set the distance from the origin on each event, rounded to one decimal.
+ * Events without venue coordinates get a null distance.
+ */
+export function applyDistances(events: CondensedEvent[], origin: GeoPoint, unit: DistanceUnit = 'mi'): void {
+  for (const event of events) {
+    const venue = event.venue;
+    event.distance = venue && venue.lat !== null && venue.lon !== null
+      ? Math.round(haversineDistance(origin, { lat: venue.lat, lon: venue.lon }, unit) * 10) / 10
+      : null;
+  }
+}
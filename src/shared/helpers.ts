@@ -1,5 +1,8 @@
+import { trackUrl } from './links.js';
+
 // Condensed event data format
-interface CondensedPerformer {
+export interface CondensedPerformer {
+  id: number | null;
   name: string | null;
   short_name: string | null;
   slug: string | null;
@@ -10,7 +13,8 @@ interface CondensedPerformer {
   num_upcoming_events: number | null;
 }
 
-interface CondensedVenue {
+export interface CondensedVenue {
+  id: number | null;
   name: string | null;
   slug: string | null;
   display_location: string | null;
@@ -23,6 +27,14 @@ interface CondensedVenue {
   lon: number | null;
 }
 
+export interface CondensedPricing {
+  lowest_price: number | null;
+  median_price: number | null;
+  average_price: number | null;
+  highest_price: number | null;
+  listing_count: number | null;
+}
+
 export interface CondensedEvent {
   id: number;
   title: string | null;
@@ -33,53 +45,179 @@ export interface CondensedEvent {
   datetime_local: string | null;
   datetime_utc: string | null;
   enddatetime_utc: string | null;
+  date_tbd: boolean;
+  time_tbd: boolean;
   performers: CondensedPerformer[];
   venue: CondensedVenue | null;
   popularity: number | null;
+  // SeatGeek's relevance score, which the "popularity" sort orders by upstream
+  score: number | null;
+  pricing: CondensedPricing | null;
+  taxonomies: string[];
+  distance?: number | null;
+}
+
+/**
+ * Map a taxonomy name or id to the upstream filter. Numeric values filter by
+ * taxonomy id; names are normalized to SeatGeek's lowercase, underscore form
+ * (e.g. "Minor League Baseball" -> "minor_league_baseball"). Parent categories
+ * such as "sports" or "concert" also match events in their child categories.
+ */
+export function buildTaxonomyFilter(taxonomy: string | number | null | undefined): Record<string, any> {
+  if (taxonomy === null || taxonomy === undefined || taxonomy === '') {
+    return {};
+  }
+
+  if (typeof taxonomy === 'number' || /^\d+$/.test(taxonomy.trim())) {
+    return { "taxonomies.id": Number(taxonomy) };
+  }
+
+  return { "taxonomies.name": taxonomy.trim().toLowerCase().replace(/[\s-]+/g, '_') };
+}
+
+export function condensePerformerData(performer: any): CondensedPerformer {
+  return {
+    id: performer.id ?? null,
+    name: performer.name ?? null,
+    short_name: performer.short_name ?? null,
+    slug: performer.slug ?? null,
+    url: trackUrl(performer.url),
+    image: performer.image ?? null,
+    genres: (performer.genres || []).map((genre: any) => genre.name).filter(Boolean),
+    popularity: performer.popularity ?? null,
+    num_upcoming_events: performer.num_upcoming_events ?? null
+  };
+}
+
+export function condenseVenueData(venue: any): CondensedVenue {
+  return {
+    id: venue.id ?? null,
+    name: venue.name ?? null,
+    slug: venue.slug ?? null,
+    display_location: venue.display_location || (venue.city && venue.state ? `${venue.city}, ${venue.state}` : null),
+    address: venue.address ?? null,
+    extended_address: venue.extended_address ?? null,
+    capacity: venue.capacity ?? null,
+    url: trackUrl(venue.url),
+    timezone: venue.timezone ?? null,
+    lat: venue.location?.lat || null,
+    lon: venue.location?.lon || null
+  };
+}
+
+export type EventSort = 'date_asc' | 'date_desc' | 'popularity' | 'lowest_price' | 'distance';
+
+// Upstream sort parameters for the orders SeatGeek supports; the rest are local only
+export const UPSTREAM_EVENT_SORT: Partial<Record<EventSort, string>> = {
+  date_asc: 'datetime_utc.asc',
+  date_desc: 'datetime_utc.desc',
+  popularity: 'score.desc',
+};
+
+/**
+ * Compare two condensed events for the given sort order. Events missing the sort
+ * value go last.
+ */
+export function compareEvents(a: CondensedEvent, b: CondensedEvent, sort: EventSort): number {
+  const compareNullable = <T>(x: T | null | undefined, y: T | null | undefined, compare: (x: T, y: T) => number): number => {
+    const xMissing = x === null || x === undefined;
+    const yMissing = y === null || y === undefined;
+    if (xMissing || yMissing) {
+      return xMissing === yMissing ? 0 : (xMissing ? 1 : -1);
+    }
+    return compare(x, y);
+  };
+
+  const byNumber = (x: number, y: number) => x - y;
+  const byString = (x: string, y: string) => x.localeCompare(y);
+
+  switch (sort) {
+    case 'date_asc':
+      return compareNullable(a.datetime_utc, b.datetime_utc, byString);
+    case 'date_desc':
+      return compareNullable(a.datetime_utc, b.datetime_utc, (x, y) => byString(y, x));
+    case 'popularity':
+      // Same key as the upstream score.desc, so merged pages keep SeatGeek's ranking
+      return compareNullable(a.score, b.score, (x, y) => byNumber(y, x));
+    case 'lowest_price':
+      return compareNullable(a.pricing?.lowest_price, b.pricing?.lowest_price, byNumber);
+    case 'distance':
+      return compareNullable(a.distance, b.distance, byNumber);
+  }
+}
+
+/**
+ * Order condensed events locally.
+ */
+export function sortEvents(events: CondensedEvent[], sort: EventSort): CondensedEvent[] {
+  return [...events].sort((a, b) => compareEvents(a, b, sort));
+}
+
+export function condensePricingData(stats: any): CondensedPricing {
+  return {
+    lowest_price: stats.lowest_price ?? null,
+    median_price: stats.median_price ?? null,
+    average_price: stats.average_price ?? null,
+    highest_price: stats.highest_price ?? null,
+    listing_count: stats.listing_count ?? null
+  };
 }
 
 export function condenseEventData(event: any): CondensedEvent {
   // Condense performers data
-  const condensedPerformers: CondensedPerformer[] = (event.performers || []).map((performer: any) => ({
-    name: performer.name,
-    short_name: performer.short_name,
-    slug: performer.slug,
-    url: performer.url,
-    image: performer.image,
-    genres: (performer.genres || []).map((genre: any) => genre.name).filter(Boolean),
-    popularity: performer.popularity,
-    num_upcoming_events: performer.num_upcoming_events
-  }));
+  const condensedPerformers: CondensedPerformer[] = (event.performers || []).map(condensePerformerData);
 
   // Condense venue data
-  let condensedVenue: CondensedVenue | null = null;
-  if (event.venue) {
-    condensedVenue = {
-      name: event.venue.name,
-      slug: event.venue.slug,
-      display_location: event.venue.display_location || (event.venue.city && event.venue.state ? `${event.venue.city}, ${event.venue.state}` : null),
-      address: event.venue.address,
-      extended_address: event.venue.extended_address,
-      capacity: event.venue.capacity,
-      url: event.venue.url,
-      timezone: event.venue.timezone,
-      lat: event.venue.location?.lat || null,
-      lon: event.venue.location?.lon || null
-    };
-  }
+  const condensedVenue: CondensedVenue | null = event.venue ? condenseVenueData(event.venue) : null;
 
   return {
     id: event.id,
-    title: event.title,
-    short_title: event.short_title,
-    type: event.type,
-    status: event.status,
-    url: event.url,
-    datetime_local: event.datetime_local,
-    datetime_utc: event.datetime_utc,
-    enddatetime_utc: event.enddatetime_utc,
+    title: event.title ?? null,
+    short_title: event.short_title ?? null,
+    type: event.type ?? null,
+    status: event.status ?? null,
+    url: trackUrl(event.url),
+    datetime_local: event.datetime_local ?? null,
+    datetime_utc: event.datetime_utc ?? null,
+    enddatetime_utc: event.enddatetime_utc ?? null,
+    date_tbd: event.date_tbd ?? false,
+    time_tbd: event.time_tbd ?? false,
     performers: condensedPerformers,
     venue: condensedVenue,
-    popularity: event.popularity
+    popularity: event.popularity ?? null,
+    score: event.score ?? null,
+    pricing: event.stats ? condensePricingData(event.stats) : null,
+    taxonomies: (event.taxonomies || []).map((taxonomy: any) => taxonomy.name).filter(Boolean)
   };
 }
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an event. Prefers the upstream datetime_local,
+ * falling back to converting datetime_utc with the venue timezone.
+ */
+export function getEventLocalDate(event: CondensedEvent): string | null {
+  if (event.datetime_local) {
+    return event.datetime_local.slice(0, 10);
+  }
+
+  if (event.datetime_utc) {
+    const utc = new Date(event.datetime_utc.endsWith('Z') ? event.datetime_utc : `${event.datetime_utc}Z`);
+    if (isNaN(utc.getTime())) {
+      return null;
+    }
+    try {
+      // en-CA formats dates as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', {
+        timeZone: event.venue?.timezone || 'UTC',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      }).format(utc);
+    } catch (error) {
+      // Unknown timezone, fall back to the UTC date
+      return event.datetime_utc.slice(0, 10);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,258 @@
+import { CondensedEvent, getEventLocalDate } from './helpers.js';
+import { isValidTimeZone, timeZoneOffset, toLocalTime } from './dates.js';
+
+// iCalendar (RFC 5545) export of condensed events for the "ics" output format.
+
+const PRODID = '-//seatgeek-mcp//SeatGeek Events//EN';
+const DAY_MS = 86400000;
+const MINUTE_MS = 60000;
+
+export interface CalendarExport {
+  text: string;
+  uri: string;
+  event_count: number;
+  // Ids of events left out because their date has not been announced
+  skipped: number[];
+}
+
+export interface CalendarOptions {
+  // Timestamp used for DTSTAMP, defaults to the current time
+  now?: Date;
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11).
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no physical line is longer than 75 octets
+ * (RFC 5545 section 3.1), without splitting multi-byte characters.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function parseUtc(value: string | null): Date | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value.endsWith('Z') ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Formats a Date's UTC fields as an iCalendar DATE-TIME without the Z suffix
+function formatDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+}
+
+function formatUtc(date: Date): string {
+  return `${formatDateTime(date)}Z`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+function toLocal(date: Date, offset: number): Date {
+  return new Date(date.getTime() + offset * MINUTE_MS);
+}
+
+/**
+ * Build a VTIMEZONE for the span of the given instants. Offset changes are found
+ * by scanning day by day and then narrowing down to the minute, so the component
+ * only lists the observances the events actually need.
+ */
+function buildTimeZone(timeZone: string, instants: Date[]): string[] {
+  const times = instants.map(date => date.getTime());
+  const start = Math.min(...times) - DAY_MS;
+  const end = Math.max(...times) + DAY_MS;
+
+  // The lower of the January and July offsets is standard time
+  const year = new Date(start).getUTCFullYear();
+  const standardOffset = Math.min(
+    timeZoneOffset(timeZone, new Date(Date.UTC(year, 0, 1))),
+    timeZoneOffset(timeZone, new Date(Date.UTC(year, 6, 1))),
+  );
+
+  const observance = (at: number, from: number, to: number): string[] => {
+    const kind = to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatDateTime(toLocal(new Date(at), from))}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  let current = timeZoneOffset(timeZone, new Date(start));
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observance(start, current, current)];
+  for (let day = start; day < end; day += DAY_MS) {
+    const next = timeZoneOffset(timeZone, new Date(day + DAY_MS));
+    if (next === current) {
+      continue;
+    }
+    // Narrow the change down to the minute within this day
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (timeZoneOffset(timeZone, new Date(middle)) === current) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    lines.push(...observance(high, current, next));
+    current = next;
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function eventLocation(event: CondensedEvent): string | null {
+  const venue = event.venue;
+  if (!venue) {
+    return null;
+  }
+  const parts = [venue.name, venue.address, venue.extended_address || venue.display_location].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function eventDescription(event: CondensedEvent): string {
+  const lines: string[] = [];
+  if (event.performers.length > 0) {
+    lines.push(`Performers: ${event.performers.map(performer => performer.name).filter(Boolean).join(', ')}`);
+  }
+  if (event.pricing?.lowest_price !== null && event.pricing?.lowest_price !== undefined) {
+    lines.push(`Tickets from $${event.pricing.lowest_price}`);
+  }
+  if (event.time_tbd) {
+    lines.push('Start time to be announced');
+  }
+  if (event.url) {
+    lines.push(event.url);
+  }
+  return lines.join('\n');
+}
+
+function eventStatus(status: string | null): string {
+  if (status === 'cancelled' || status === 'canceled') {
+    return 'CANCELLED';
+  }
+  return status === 'postponed' ? 'TENTATIVE' : 'CONFIRMED';
+}
+
+/**
+ * Turn condensed events into an iCalendar document with one VEVENT per event.
+ *
+ * Start and end come from datetime_utc and enddatetime_utc, written as local
+ * times with the venue's TZID (and a matching VTIMEZONE), or in UTC when the
+ * venue has no known timezone. Events whose time is TBD become all-day entries
+ * on their local date; events whose date is TBD are skipped.
+ */
+export function buildCalendar(events: CondensedEvent[], options: CalendarOptions = {}): CalendarExport {
+  const stamp = formatUtc(options.now ?? new Date());
+  const skipped: number[] = [];
+  const zones = new Map<string, Date[]>();
+  const vevents: string[][] = [];
+
+  for (const event of events) {
+    const start = parseUtc(event.datetime_utc);
+    const localDate = getEventLocalDate(event);
+    if (event.date_tbd || (!start && !localDate)) {
+      skipped.push(event.id);
+      continue;
+    }
+
+    const lines = ['BEGIN:VEVENT', `UID:seatgeek-event-${event.id}@seatgeek.com`, `DTSTAMP:${stamp}`];
+
+    if (event.time_tbd || !start) {
+      const date = localDate!.replace(/-/g, '');
+      const next = new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8))) + DAY_MS);
+      lines.push(`DTSTART;VALUE=DATE:${date}`, `DTEND;VALUE=DATE:${formatDateTime(next).slice(0, 8)}`);
+    } else {
+      const end = parseUtc(event.enddatetime_utc);
+      const timeZone = event.venue?.timezone;
+      if (timeZone && isValidTimeZone(timeZone)) {
+        const instants = zones.get(timeZone) ?? [];
+        zones.set(timeZone, instants);
+        instants.push(start);
+        lines.push(`DTSTART;TZID=${timeZone}:${formatDateTime(toLocalTime(start, timeZone))}`);
+        if (end && end > start) {
+          instants.push(end);
+          lines.push(`DTEND;TZID=${timeZone}:${formatDateTime(toLocalTime(end, timeZone))}`);
+        }
+      } else {
+        lines.push(`DTSTART:${formatUtc(start)}`);
+        if (end && end > start) {
+          lines.push(`DTEND:${formatUtc(end)}`);
+        }
+      }
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.title || 'SeatGeek event')}`);
+    const location = eventLocation(event);
+    if (location) {
+      lines.push(`LOCATION:${escapeText(location)}`);
+    }
+    if (event.venue?.lat !== null && event.venue?.lat !== undefined && event.venue.lon !== null) {
+      lines.push(`GEO:${event.venue.lat};${event.venue.lon}`);
+    }
+    const description = eventDescription(event);
+    if (description) {
+      lines.push(`DESCRIPTION:${escapeText(description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    lines.push(`STATUS:${eventStatus(event.status)}`, 'END:VEVENT');
+    vevents.push(lines);
+  }
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  for (const [timeZone, instants] of zones) {
+    lines.push(...buildTimeZone(timeZone, instants));
+  }
+  for (const vevent of vevents) {
+    lines.push(...vevent);
+  }
+  lines.push('END:VCALENDAR');
+
+  const included = events.filter(event => !skipped.includes(event.id));
+  return {
+    text: lines.map(foldLine).join('\r\n') + '\r\n',
+    uri: included.length === 1 ? `seatgeek://calendar/event-${included[0].id}.ics` : 'seatgeek://calendar/events.ics',
+    event_count: vevents.length,
+    skipped,
+  };
+}
@@ -0,0 +1,77 @@
+import { getAffiliateConfig } from './core.js';
+
+const SEATGEEK_HOSTS = ['seatgeek.com', 'www.seatgeek.com'];
+
+// Query parameters buildTrackedUrl sets, plus the UTM tags it never sets itself
+const TRACKING_PARAMS = ['aid', 'rid', 'quantity', 'section', 'utm_source', 'utm_medium', 'utm_campaign', 'utm_content', 'utm_term'];
+
+export interface LinkOptions {
+  quantity?: number | null;
+  section?: string | null;
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  utm_campaign?: string | null;
+  utm_content?: string | null;
+}
+
+/**
+ * Whether a url points at seatgeek.com.
+ */
+export function isSeatGeekUrl(url: string): boolean {
+  try {
+    return SEATGEEK_HOSTS.includes(new URL(url).hostname);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Remove tracking parameters from a url, e.g. one copied from an earlier tracked
+ * link, so only the canonical url is left to build on. Other parameters are kept.
+ */
+export function stripTrackingParams(url: string): string {
+  const parsed = new URL(url);
+  for (const key of TRACKING_PARAMS) {
+    parsed.searchParams.delete(key);
+  }
+  return parsed.toString();
+}
+
+/**
+ * Add partner aid/rid, UTM tags and optional quantity/section hints to a SeatGeek url.
+ * Explicit options win over the env defaults; parameters without a value are left off.
+ */
+export function buildTrackedUrl(url: string, options: LinkOptions = {}): string {
+  const config = getAffiliateConfig();
+  const parsed = new URL(url);
+
+  const params: Record<string, string | number | null | undefined> = {
+    aid: config.aid,
+    rid: config.rid,
+    quantity: options.quantity,
+    section: options.section,
+    utm_source: options.utm_source ?? config.utm_source,
+    utm_medium: options.utm_medium ?? config.utm_medium,
+    utm_campaign: options.utm_campaign ?? config.utm_campaign,
+    utm_content: options.utm_content,
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null && value !== undefined && value !== '') {
+      parsed.searchParams.set(key, String(value));
+    }
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Apply tracking parameters to a url emitted in tool output when link tracking is
+ * enabled in env. Returns the url unchanged otherwise, or when it is not a SeatGeek url.
+ */
+export function trackUrl(url: string | null | undefined): string | null {
+  if (!url || !getAffiliateConfig().trackAllLinks || !isSeatGeekUrl(url)) {
+    return url ?? null;
+  }
+  return buildTrackedUrl(url);
+}
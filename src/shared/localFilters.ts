@@ -0,0 +1,193 @@
+import { CondensedEvent, getEventLocalDate } from './helpers.js';
+import { formatDateTime, isValidTimeZone, toLocalTime } from './dates.js';
+import { ToolError } from './errors.js';
+
+// Filters on each event's local wall-clock time at its venue. SeatGeek only
+// filters on datetime_utc, so the upstream window is widened to cover every
+// timezone and the exact local bounds are applied after condenseEventData.
+//
+// The filters run on each fetched page after paging, so a page can hold fewer
+// than per_page events, or none at all, while has_more is still true. total and
+// next_cursor keep counting the dropped events; callers keep following
+// next_cursor. filtered_out reports the drop, and filterRawEvents applies the
+// same cut to the raw items returned for format "json".
+
+const HOUR_MS = 3600000;
+// Local time runs from UTC-12 to UTC+14, so these cover every venue timezone
+const MAX_OFFSET_AHEAD = 14 * HOUR_MS;
+const MAX_OFFSET_BEHIND = 12 * HOUR_MS;
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export const DAY_FILTERS = [...WEEKDAYS, 'weekday', 'weekend'] as const;
+export const TIMES_OF_DAY = ['morning', 'afternoon', 'evening', 'late_night'] as const;
+
+export type DayFilter = typeof DAY_FILTERS[number];
+export type TimeOfDay = typeof TIMES_OF_DAY[number];
+
+// Start hours (inclusive) and end hours (exclusive) in local time; late_night wraps past midnight
+const TIME_OF_DAY_HOURS: Record<TimeOfDay, [number, number]> = {
+  morning: [5, 12],
+  afternoon: [12, 17],
+  evening: [17, 22],
+  late_night: [22, 5],
+};
+
+export interface LocalFilterParams {
+  start_utc?: string | null;
+  end_utc?: string | null;
+  start_local?: string | null;
+  end_local?: string | null;
+  days_of_week?: DayFilter[] | null;
+  times_of_day?: TimeOfDay[] | null;
+}
+
+export interface LocalFilterResult {
+  events: CondensedEvent[];
+  // Present when a local filter was given: events dropped from this page
+  filtered_out?: number;
+}
+
+/**
+ * Normalize a local bound (YYYY-MM-DD, YYYY-MM-DDTHH:MM or YYYY-MM-DDTHH:MM:SS)
+ * to YYYY-MM-DDTHH:MM:SS. A bare end date covers the whole day.
+ */
+function parseLocalBound(value: string, field: 'start_local' | 'end_local'): string {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (match) {
+    const [year, month, day] = match.slice(1, 4).map(Number);
+    const [hour, minute, second] = match.slice(4).map(part => Number(part ?? 0));
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60) {
+      if (field === 'end_local' && match[4] === undefined) {
+        date.setUTCHours(23, 59, 59);
+      }
+      return formatDateTime(date);
+    }
+  }
+  throw new ToolError('VALIDATION_ERROR', `Invalid ${field} "${value}"`, {
+    fields: [{ field, message: 'Use a local date or datetime, e.g. "2026-03-14" or "2026-03-14T18:00"' }],
+  });
+}
+
+function shiftDateTime(value: string, ms: number): string {
+  return formatDateTime(new Date(new Date(`${value}Z`).getTime() + ms));
+}
+
+function hasLocalFilters(params: LocalFilterParams): boolean {
+  return Boolean(params.start_local || params.end_local || params.days_of_week?.length || params.times_of_day?.length);
+}
+
+/**
+ * Validate start_local/end_local and widen start_utc/end_utc so the upstream
+ * search covers the local range in every timezone. Explicit UTC bounds that
+ * are already narrower are kept.
+ */
+export function applyLocalWindow<T extends LocalFilterParams>(params: T): T {
+  const startLocal = params.start_local ? parseLocalBound(params.start_local, 'start_local') : null;
+  const endLocal = params.end_local ? parseLocalBound(params.end_local, 'end_local') : null;
+  if (startLocal && endLocal && startLocal > endLocal) {
+    throw new ToolError('VALIDATION_ERROR', 'start_local is after end_local', {
+      fields: [{ field: 'end_local', message: 'end_local must not be before start_local' }],
+    });
+  }
+
+  const widened = { ...params, start_local: startLocal, end_local: endLocal };
+  if (startLocal) {
+    const start = shiftDateTime(startLocal, -MAX_OFFSET_AHEAD);
+    widened.start_utc = params.start_utc && params.start_utc > start ? params.start_utc : start;
+  }
+  if (endLocal) {
+    const end = shiftDateTime(endLocal, MAX_OFFSET_BEHIND);
+    widened.end_utc = params.end_utc && params.end_utc < end ? params.end_utc : end;
+  }
+  return widened;
+}
+
+/**
+ * An event's local start time at its venue: datetime_local, else datetime_utc
+ * converted with the venue timezone.
+ */
+function eventLocalDateTime(event: CondensedEvent): string | null {
+  if (event.datetime_local) {
+    return event.datetime_local.slice(0, 19);
+  }
+  const timeZone = event.venue?.timezone;
+  if (event.datetime_utc && timeZone && isValidTimeZone(timeZone)) {
+    const utc = event.datetime_utc.endsWith('Z') ? event.datetime_utc : `${event.datetime_utc}Z`;
+    return formatDateTime(toLocalTime(new Date(utc), timeZone));
+  }
+  return null;
+}
+
+function matchesDay(date: string, days: DayFilter[]): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return days.some(day => {
+    if (day === 'weekend') {
+      return weekday === 0 || weekday === 6;
+    }
+    if (day === 'weekday') {
+      return weekday >= 1 && weekday <= 5;
+    }
+    return WEEKDAYS[weekday] === day;
+  });
+}
+
+function matchesTimeOfDay(hour: number, times: TimeOfDay[]): boolean {
+  return times.some(time => {
+    const [from, to] = TIME_OF_DAY_HOURS[time];
+    return from < to ? hour >= from && hour < to : hour >= from || hour < to;
+  });
+}
+
+/**
+ * Keep the events whose local start time at the venue falls within
+ * start_local/end_local, on one of days_of_week and in one of times_of_day.
+ * Events with an unannounced date never match; events with an unannounced
+ * time only match date filters. Pass the params returned by applyLocalWindow.
+ */
+export function filterByLocalTime(events: CondensedEvent[], params: LocalFilterParams): LocalFilterResult {
+  if (!hasLocalFilters(params)) {
+    return { events };
+  }
+
+  const kept = events.filter(event => {
+    const local = eventLocalDateTime(event);
+    const date = local?.slice(0, 10) ?? getEventLocalDate(event);
+    if (event.date_tbd || !date) {
+      return false;
+    }
+
+    if (event.time_tbd || !local) {
+      if (params.times_of_day?.length) {
+        return false;
+      }
+      if ((params.start_local && date < params.start_local.slice(0, 10)) || (params.end_local && date > params.end_local.slice(0, 10))) {
+        return false;
+      }
+    } else {
+      if ((params.start_local && local < params.start_local) || (params.end_local && local > params.end_local)) {
+        return false;
+      }
+      if (params.times_of_day?.length && !matchesTimeOfDay(Number(local.slice(11, 13)), params.times_of_day)) {
+        return false;
+      }
+    }
+
+    return !params.days_of_week?.length || matchesDay(date, params.days_of_week);
+  });
+
+  return { events: kept, filtered_out: events.length - kept.length };
+}
+
+/**
+ * Keep the raw upstream items whose event passed filterByLocalTime, so the raw
+ * output matches the filtered one. eventOf picks the event out of an item, e.g.
+ * a recommendation's event.
+ */
+export function filterRawEvents<T>(items: T[], result: LocalFilterResult, eventOf: (item: T) => any = item => item): T[] {
+  if (result.filtered_out === undefined) {
+    return items;
+  }
+  const keptIds = new Set(result.events.map(event => event.id));
+  return items.filter(item => keptIds.has(eventOf(item)?.id));
+}
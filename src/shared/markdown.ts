@@ -0,0 +1,363 @@
+import { CondensedEvent, CondensedPerformer, CondensedVenue } from './helpers.js';
+import { PageInfo } from './pagination.js';
+import { ResolvedDateRange } from './dates.js';
+
+// Markdown renderers for the "markdown" output format. Each takes a tool's
+// structured output and returns compact tables and lists for chat clients.
+
+const EMPTY_CELL = '—';
+
+/**
+ * Escape text for use inside a markdown table cell.
+ */
+function cell(value: string | null | undefined): string {
+  if (value === null || value === undefined || value === '') {
+    return EMPTY_CELL;
+  }
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function link(text: string | null | undefined, url: string | null | undefined): string {
+  const label = cell(text);
+  return url ? `[${label}](${url})` : label;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+export function formatPrice(price: number | null | undefined): string {
+  return price === null || price === undefined ? EMPTY_CELL : `$${price}`;
+}
+
+/**
+ * Format an upstream local datetime (e.g. "2026-03-14T19:30:00") as
+ * "Sat, Mar 14, 2026, 7:30 PM". The value is already in the venue's timezone,
+ * so it is formatted as-is without any conversion.
+ */
+export function formatLocalDateTime(datetimeLocal: string | null | undefined): string {
+  if (!datetimeLocal) {
+    return 'TBD';
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(datetimeLocal);
+  if (!match) {
+    return datetimeLocal;
+  }
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(Date.UTC(year, month - 1, day, hour, minute)));
+}
+
+function eventTitle(event: CondensedEvent): string {
+  const title = link(event.title, event.url);
+  return event.status && event.status !== 'normal' ? `${title} (${event.status})` : title;
+}
+
+/**
+ * Table of events with local date and time, venue, city and the lowest price.
+ */
+export function eventTable(events: CondensedEvent[]): string {
+  if (events.length === 0) {
+    return '_No events found._';
+  }
+
+  const withDistance = events.some(event => event.distance !== undefined && event.distance !== null);
+  const headers = ['Date (local)', 'Event', 'Venue', 'City', 'From'];
+  if (withDistance) {
+    headers.push('Distance');
+  }
+
+  const rows = events.map(event => {
+    const row = [
+      formatLocalDateTime(event.datetime_local),
+      eventTitle(event),
+      cell(event.venue?.name),
+      cell(event.venue?.display_location),
+      formatPrice(event.pricing?.lowest_price),
+    ];
+    if (withDistance) {
+      row.push(event.distance !== undefined && event.distance !== null ? String(event.distance) : EMPTY_CELL);
+    }
+    return row;
+  });
+
+  return table(headers, rows);
+}
+
+function pageFooter(page: PageInfo, shown: number): string {
+  const total = page.total !== null ? ` of ${page.total}` : '';
+  const more = page.has_more && page.next_cursor
+    ? ` More results are available; pass cursor \`${page.next_cursor}\` to continue.`
+    : '';
+  return `_Showing ${shown}${total} results (page ${page.page}).${more}_`;
+}
+
+/**
+ * Note on how a when phrase was resolved, so the user can check the range.
+ */
+function resolvedDatesNote(resolved: ResolvedDateRange): string {
+  return `_"${resolved.when}": ${formatLocalDateTime(resolved.start_local)} to ${formatLocalDateTime(resolved.end_local)} (${resolved.timezone})._`;
+}
+
+interface PerformerSearchSummary {
+  searched: string[];
+  failed: { slug: string; error: string }[];
+  fell_back_to_text_search: boolean;
+}
+
+interface SeedSearchSummary {
+  searched: string[];
+  failed: { slug: string; error: string }[];
+  lookup_error: string | null;
+}
+
+function failedSearches(failed: { slug: string; error: string }[]): string {
+  return failed.map(failure => `\`${failure.slug}\` (${failure.error})`).join(', ');
+}
+
+/**
+ * Warning when some per-performer searches failed, so the results may be incomplete.
+ */
+function performerSearchNote(search: PerformerSearchSummary): string | null {
+  if (search.fell_back_to_text_search) {
+    return '_Every performer search failed, so these are text search results for the query instead._';
+  }
+  if (search.failed.length > 0) {
+    return `_Events for ${search.failed.length} of ${search.searched.length} performers could not be fetched and are missing: ${failedSearches(search.failed)}._`;
+  }
+  return null;
+}
+
+/**
+ * Warning when the query could not be turned into a seed event, fully or in part.
+ */
+function seedSearchNote(search: SeedSearchSummary): string | null {
+  if (search.lookup_error) {
+    return `_The performer or event lookup for the query failed, so these recommendations are not based on it: ${search.lookup_error}._`;
+  }
+  if (search.failed.length > 0) {
+    return `_Events for ${search.failed.length} of ${search.searched.length} performers could not be fetched while picking the seed event: ${failedSearches(search.failed)}._`;
+  }
+  return null;
+}
+
+/**
+ * Note on events dropped by the local date and time filters, which can leave a
+ * page short or empty while more results follow.
+ */
+function filteredOutNote(filteredOut: number, hasMore: boolean): string | null {
+  if (filteredOut === 0) {
+    return null;
+  }
+  const more = hasMore ? ' This page may be short or empty, but more results follow; keep paging with the cursor.' : '';
+  return `_${filteredOut} events were left out by the local date and time filters.${more}_`;
+}
+
+function withNotes(notes: (string | null | undefined)[], body: string): string {
+  return [...notes.filter(Boolean), body].join('\n\n');
+}
+
+export function eventListMarkdown(output: {
+  events: CondensedEvent[];
+  resolved_dates?: ResolvedDateRange;
+  filtered_out?: number;
+  performer_search?: PerformerSearchSummary;
+  seed_search?: SeedSearchSummary;
+} & PageInfo): string {
+  return withNotes([
+    output.resolved_dates && resolvedDatesNote(output.resolved_dates),
+    output.performer_search && performerSearchNote(output.performer_search),
+    output.seed_search && seedSearchNote(output.seed_search),
+    output.filtered_out !== undefined ? filteredOutNote(output.filtered_out, output.has_more) : null,
+  ], `${eventTable(output.events)}\n\n${pageFooter(output, output.events.length)}`);
+}
+
+/**
+ * A single event as a heading followed by its details.
+ */
+export function eventMarkdown(event: CondensedEvent): string {
+  const lines = [`### ${eventTitle(event)}`, ''];
+  lines.push(`- **When:** ${formatLocalDateTime(event.datetime_local)}`);
+  if (event.venue) {
+    const location = event.venue.display_location ? `, ${event.venue.display_location}` : '';
+    lines.push(`- **Venue:** ${cell(event.venue.name)}${location}`);
+  }
+  if (event.performers.length > 0) {
+    lines.push(`- **Performers:** ${event.performers.map(performer => cell(performer.name)).join(', ')}`);
+  }
+  if (event.pricing) {
+    lines.push(`- **Price:** from ${formatPrice(event.pricing.lowest_price)}, median ${formatPrice(event.pricing.median_price)}, ${event.pricing.listing_count ?? 0} listings`);
+  }
+  if (event.taxonomies.length > 0) {
+    lines.push(`- **Category:** ${event.taxonomies.join(', ')}`);
+  }
+  lines.push(`- **Event id:** ${event.id}`);
+  return lines.join('\n');
+}
+
+interface PerformerSummary {
+  name: string | null;
+  url: string | null;
+  slug: string | null;
+  genres?: string[];
+  type?: string | null;
+}
+
+function performerLine(performer: PerformerSummary): string {
+  const details = performer.genres && performer.genres.length > 0
+    ? performer.genres.join(', ')
+    : performer.type;
+  const slug = performer.slug ? ` \`${performer.slug}\`` : '';
+  return `- **${link(performer.name, performer.url)}**${slug}${details ? ` — ${details}` : ''}`;
+}
+
+export function performerListMarkdown(output: { performers: PerformerSummary[]; resolved_dates?: ResolvedDateRange } & PageInfo): string {
+  const list = output.performers.length > 0
+    ? output.performers.map(performerLine).join('\n')
+    : '_No performers found._';
+  return withNotes([output.resolved_dates && resolvedDatesNote(output.resolved_dates)], `${list}\n\n${pageFooter(output, output.performers.length)}`);
+}
+
+/**
+ * A performer with their genres followed by a table of upcoming events.
+ */
+export function performerMarkdown(output: CondensedPerformer & { upcoming_events: CondensedEvent[] }): string {
+  const lines = [`### ${link(output.name, output.url)}`, ''];
+  if (output.genres.length > 0) {
+    lines.push(`- **Genres:** ${output.genres.join(', ')}`);
+  }
+  if (output.num_upcoming_events !== null) {
+    lines.push(`- **Upcoming events:** ${output.num_upcoming_events}`);
+  }
+  lines.push(`- **Slug:** \`${output.slug ?? ''}\``, '', eventTable(output.upcoming_events));
+  return lines.join('\n');
+}
+
+export function venueListMarkdown(output: { venues: CondensedVenue[] } & PageInfo): string {
+  const body = output.venues.length > 0
+    ? table(['Venue', 'Location', 'Address', 'Capacity', 'Id'], output.venues.map(venue => [
+      link(venue.name, venue.url),
+      cell(venue.display_location),
+      cell(venue.address),
+      venue.capacity ? String(venue.capacity) : EMPTY_CELL,
+      venue.id !== null ? String(venue.id) : EMPTY_CELL,
+    ]))
+    : '_No venues found._';
+  return `${body}\n\n${pageFooter(output, output.venues.length)}`;
+}
+
+export function venueCalendarMarkdown(output: {
+  venue_name: string | null;
+  timezone: string | null;
+  total_events: number;
+  truncated: boolean;
+  days: { date: string; events: CondensedEvent[] }[];
+  resolved_dates?: ResolvedDateRange;
+  filtered_out?: number;
+}): string {
+  const timezone = output.timezone ? ` (${output.timezone})` : '';
+  const lines = [`### ${cell(output.venue_name)}${timezone}`, ''];
+  if (output.resolved_dates) {
+    lines.push(resolvedDatesNote(output.resolved_dates), '');
+  }
+  const filtered = output.filtered_out !== undefined ? filteredOutNote(output.filtered_out, false) : null;
+  if (filtered) {
+    lines.push(filtered, '');
+  }
+  if (output.days.length === 0) {
+    lines.push('_No events found in this date range._');
+  }
+  for (const day of output.days) {
+    lines.push(`#### ${day.date}`, '', eventTable(day.events), '');
+  }
+  lines.push(`_${output.total_events} events${output.truncated ? ', truncated; narrow the date range to see the rest' : ''}._`);
+  return lines.join('\n');
+}
+
+/**
+ * One line per section with its row count and first and last row.
+ */
+export function sectionsMarkdown(output: { sections: Record<string, string[]> | null }): string {
+  if (!output.sections || Object.keys(output.sections).length === 0) {
+    return '_No section information is available for this event._';
+  }
+
+  return Object.entries(output.sections).map(([section, rows]) => {
+    if (rows.length === 0) {
+      return `- **${cell(section)}**: no rows listed`;
+    }
+    const range = rows.length > 1 ? ` (${rows[0]}–${rows[rows.length - 1]})` : ` (${rows[0]})`;
+    return `- **${cell(section)}**: ${rows.length} ${rows.length === 1 ? 'row' : 'rows'}${range}`;
+  }).join('\n');
+}
+
+export function priceAnalysisMarkdown(output: {
+  events: {
+    event_id: number;
+    title: string | null;
+    datetime_local: string | null;
+    venue: string | null;
+    url: string | null;
+    cheapest_entry: number | null;
+    median_price: number | null;
+    highest_price: number | null;
+    listing_count: number | null;
+  }[];
+  cheapest_entry: { title: string | null; price: number | null; url: string | null } | null;
+  not_found: number[];
+  failed: { event_id: number; error: string }[];
+}): string {
+  const lines = [table(['Date (local)', 'Event', 'Venue', 'From', 'Median', 'Highest', 'Listings'], output.events.map(event => [
+    formatLocalDateTime(event.datetime_local),
+    link(event.title, event.url),
+    cell(event.venue),
+    formatPrice(event.cheapest_entry),
+    formatPrice(event.median_price),
+    formatPrice(event.highest_price),
+    event.listing_count !== null ? String(event.listing_count) : EMPTY_CELL,
+  ]))];
+  if (output.cheapest_entry) {
+    lines.push('', `**Cheapest way in:** ${link(output.cheapest_entry.title, output.cheapest_entry.url)} from ${formatPrice(output.cheapest_entry.price)}`);
+  }
+  if (output.not_found.length > 0) {
+    lines.push('', `_Not found: ${output.not_found.join(', ')}_`);
+  }
+  if (output.failed.length > 0) {
+    lines.push('', `_Could not be fetched: ${output.failed.map(failure => `${failure.event_id} (${failure.error})`).join(', ')}_`);
+  }
+  return lines.join('\n');
+}
+
+export function eventLinkMarkdown(output: { title: string | null; url: string }): string {
+  return `[${output.title ? cell(output.title) : 'Buy tickets'}](${output.url})`;
+}
+
+interface CategorySummary {
+  name: string | null;
+  children: CategorySummary[];
+}
+
+export function categoriesMarkdown(output: { categories: CategorySummary[] }): string {
+  const lines: string[] = [];
+  const walk = (nodes: CategorySummary[], depth: number) => {
+    for (const node of nodes) {
+      lines.push(`${'  '.repeat(depth)}- ${node.name ?? EMPTY_CELL}`);
+      walk(node.children, depth + 1);
+    }
+  };
+  walk(output.categories, 0);
+  return lines.length > 0 ? lines.join('\n') : '_No categories found._';
+}
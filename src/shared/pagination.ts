@@ -0,0 +1,143 @@
+import { ToolError } from './errors.js';
+
+// Hard cap on the number of results a fetch_all request may return
+export const MAX_FETCH_ALL_RESULTS = 500;
+export const FETCH_ALL_PAGE_SIZE = 50;
+
+/**
+ * Resumable position in a result set. Direct searches only need the upstream page
+ * and page size; merged multi-performer searches track how many events have been
+ * consumed from each performer's stream and which streams are used up, plus the ids
+ * returned on the previous page so events shared between performers are not repeated
+ * across the page boundary.
+ */
+export interface CursorState {
+  page: number;
+  per_page?: number;
+  offsets?: Record<string, number>;
+  seen?: number[];
+  exhausted?: string[];
+}
+
+export interface PageRequest {
+  page: number;
+  per_page: number;
+  cursor?: string | null;
+  fetch_all?: boolean;
+}
+
+export interface PageInfo {
+  total: number | null;
+  page: number;
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number | null;
+  page: number;
+  next: CursorState | null;
+  // Upstream meta block of the last response, e.g. for its geolocation
+  meta?: any;
+}
+
+/**
+ * Encode a cursor state as an opaque url-safe string.
+ */
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor.
+ */
+export function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof state.page !== 'number' || state.page < 1) {
+      throw new Error('missing page');
+    }
+    return state;
+  } catch (error) {
+    throw new ToolError('VALIDATION_ERROR', 'Invalid cursor. Pass the next_cursor value from a previous result unchanged.', {
+      fields: [{ field: 'cursor', message: 'Not a cursor returned by this tool' }],
+    });
+  }
+}
+
+/**
+ * Starting position for a request: the cursor if one was passed, otherwise the page.
+ */
+export function initialCursorState(cursor: string | null | undefined, page: number, perPage: number): CursorState {
+  return cursor ? decodeCursor(cursor) : { page, per_page: perPage };
+}
+
+/**
+ * Build a page from an upstream response that carries the standard meta block
+ * (total, page, per_page).
+ */
+export function pageFromMeta<T>(items: T[], meta: any, state: CursorState, perPage: number): Page<T> {
+  const total = typeof meta?.total === 'number' ? meta.total : null;
+  const hasMore = total !== null ? state.page * perPage < total : items.length >= perPage;
+
+  return {
+    items,
+    total,
+    page: state.page,
+    next: hasMore ? { page: state.page + 1, per_page: perPage } : null,
+    meta,
+  };
+}
+
+/**
+ * Pagination fields for a tool's structured output.
+ */
+export function toPageInfo<T>(page: Page<T>): PageInfo {
+  return {
+    total: page.total,
+    page: page.page,
+    has_more: page.next !== null,
+    next_cursor: page.next ? encodeCursor(page.next) : null,
+  };
+}
+
+/**
+ * Keep fetching pages from a starting position until the results run out or the
+ * MAX_FETCH_ALL_RESULTS cap is reached. The returned page resumes after the last
+ * page fetched.
+ */
+export async function collectPages<T>(
+  start: CursorState,
+  fetchPage: (state: CursorState, pageSize: number) => Promise<Page<T>>
+): Promise<Page<T>> {
+  const items: T[] = [];
+  let total: number | null = null;
+  let meta: any;
+  let next: CursorState | null = start;
+
+  while (next && items.length < MAX_FETCH_ALL_RESULTS) {
+    const page: Page<T> = await fetchPage(next, Math.min(FETCH_ALL_PAGE_SIZE, MAX_FETCH_ALL_RESULTS - items.length));
+    items.push(...page.items);
+    total = page.total;
+    meta = page.meta ?? meta;
+    next = page.next;
+  }
+
+  return { items, total, page: start.page, next, meta };
+}
+
+/**
+ * Fetch the page (or, with fetch_all, every page up to the cap) a tool call asked for,
+ * for result sets that can be paged by number.
+ */
+export async function fetchRequestedPages<T>(
+  request: PageRequest,
+  fetchPage: (state: CursorState, pageSize: number) => Promise<Page<T>>
+): Promise<Page<T>> {
+  if (request.fetch_all) {
+    const start = request.cursor ? decodeCursor(request.cursor) : { page: 1, per_page: FETCH_ALL_PAGE_SIZE };
+    return collectPages(start, fetchPage);
+  }
+  return fetchPage(initialCursorState(request.cursor, request.page, request.per_page), request.per_page);
+}
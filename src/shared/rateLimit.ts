@@ -0,0 +1,81 @@
+/**
+ * Process-wide client-side rate limiting for upstream requests, so a burst from
+ * one conversation cannot exhaust the request budget shared by our client id.
+ */
+export interface RateLimiter {
+  acquire(): Promise<void>;
+}
+
+/**
+ * Time source for the token bucket, replaceable so tests can run on a fake clock.
+ */
+export interface LimiterClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+const systemClock: LimiterClock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+/**
+ * Token bucket allowing `requestsPerSecond` on average with bursts of up to
+ * `burst` requests. Waiters are served in order.
+ */
+export function createTokenBucket(requestsPerSecond: number, burst: number = requestsPerSecond, clock: LimiterClock = systemClock): RateLimiter {
+  const capacity = Math.max(1, burst);
+  let tokens = capacity;
+  let lastRefill = clock.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = clock.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) / 1000 * requestsPerSecond);
+    lastRefill = now;
+  };
+
+  return {
+    acquire() {
+      const turn = queue.then(async () => {
+        refill();
+        if (tokens < 1) {
+          await clock.sleep((1 - tokens) / requestsPerSecond * 1000);
+          refill();
+        }
+        tokens -= 1;
+      });
+      queue = turn;
+      return turn;
+    },
+  };
+}
+
+function createDefaultLimiter(): RateLimiter | null {
+  const requestsPerSecond = parseFloat(process.env.SEATGEEK_RATE_LIMIT_RPS || `${DEFAULT_REQUESTS_PER_SECOND}`);
+  if (Number.isNaN(requestsPerSecond) || requestsPerSecond <= 0) {
+    return null;
+  }
+  const burst = parseInt(process.env.SEATGEEK_RATE_LIMIT_BURST || `${Math.ceil(requestsPerSecond * 2)}`, 10);
+  return createTokenBucket(requestsPerSecond, Number.isNaN(burst) ? requestsPerSecond : burst);
+}
+
+let activeLimiter: RateLimiter | null = createDefaultLimiter();
+
+/**
+ * Replace the rate limiter, or pass null to disable client-side limiting.
+ */
+export function setRateLimiter(limiter: RateLimiter | null): void {
+  activeLimiter = limiter;
+}
+
+/**
+ * Wait for a request slot from the active limiter, if any.
+ */
+export async function acquireRequestSlot(): Promise<void> {
+  if (activeLimiter) {
+    await activeLimiter.acquire();
+  }
+}
@@ -0,0 +1,171 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * MCP resources for SeatGeek entities. Tool results link to the events,
+ * performers and venues they return, and each server instance remembers the
+ * linked entities so resources/list can offer the most recently returned ones
+ * as context.
+ */
+
+export const EVENT_URI_TEMPLATE = 'seatgeek://event/{id}';
+export const PERFORMER_URI_TEMPLATE = 'seatgeek://performer/{slug}';
+export const VENUE_URI_TEMPLATE = 'seatgeek://venue/{id}';
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+export interface EntityResource {
+  uri: string;
+  name: string;
+  title: string;
+  description?: string;
+}
+
+export function eventUri(id: number): string {
+  return `seatgeek://event/${id}`;
+}
+
+export function performerUri(slug: string): string {
+  return `seatgeek://performer/${encodeURIComponent(slug)}`;
+}
+
+export function venueUri(id: number): string {
+  return `seatgeek://venue/${id}`;
+}
+
+export function eventEntity(event: { id: number; title: string | null; datetime_local?: string | null }): EntityResource {
+  return {
+    uri: eventUri(event.id),
+    name: `event-${event.id}`,
+    title: event.title || `Event ${event.id}`,
+    description: event.datetime_local ? `SeatGeek event on ${event.datetime_local.slice(0, 10)}` : 'SeatGeek event',
+  };
+}
+
+export function performerEntity(performer: { slug: string | null; name: string | null }): EntityResource | null {
+  if (!performer.slug) {
+    return null;
+  }
+  return {
+    uri: performerUri(performer.slug),
+    name: `performer-${performer.slug}`,
+    title: performer.name || performer.slug,
+    description: 'SeatGeek performer',
+  };
+}
+
+export function venueEntity(venue: { id: number | null; name: string | null; display_location?: string | null }): EntityResource | null {
+  if (venue.id === null) {
+    return null;
+  }
+  return {
+    uri: venueUri(venue.id),
+    name: `venue-${venue.id}`,
+    title: venue.name || `Venue ${venue.id}`,
+    description: venue.display_location ? `SeatGeek venue in ${venue.display_location}` : 'SeatGeek venue',
+  };
+}
+
+/**
+ * resource_link content items for a tool result, one per distinct entity.
+ */
+export function resourceLinks(entities: EntityResource[]) {
+  return entities.map(entity => ({
+    type: 'resource_link' as const,
+    ...entity,
+    mimeType: RESOURCE_MIME_TYPE,
+  }));
+}
+
+/**
+ * The entities a tool result links to, read back from its resource_link items.
+ */
+export function linkedEntities(result: CallToolResult): EntityResource[] {
+  return result.content.flatMap(item => {
+    if (item.type !== 'resource_link') {
+      return [];
+    }
+    const { type, mimeType, ...entity } = item;
+    return [entity as EntityResource];
+  });
+}
+
+const DEFAULT_MAX_RECENT = 200;
+export const RECENT_PAGE_SIZE = 50;
+
+let maxRecent = DEFAULT_MAX_RECENT;
+
+export interface RecentResourcesPage {
+  entities: EntityResource[];
+  // Pass as before to get the next (older) page; null on the last page
+  next: number | null;
+}
+
+export interface RecentResources {
+  // Remember entities returned by a tool, evicting the oldest beyond the cap
+  remember(entities: EntityResource[]): void;
+  // One page of recently returned entities, newest first. before is the next
+  // value of the previous page
+  page(before?: number | null, limit?: number): RecentResourcesPage;
+}
+
+/**
+ * Recently returned entities for one server instance, so clients connected to
+ * different instances (e.g. separate HTTP sessions) never see each other's.
+ */
+export function createRecentResources(): RecentResources {
+  // Keyed by uri; seq increases every time an entity is returned again, so the
+  // listing is newest first and a cursor stays valid while new entities arrive
+  const recent = new Map<string, { seq: number; entity: EntityResource }>();
+  let sequence = 0;
+
+  const evict = () => {
+    while (recent.size > maxRecent) {
+      recent.delete(recent.keys().next().value as string);
+    }
+  };
+
+  return {
+    remember(entities) {
+      for (const entity of entities) {
+        recent.delete(entity.uri);
+        recent.set(entity.uri, { seq: ++sequence, entity });
+      }
+      evict();
+    },
+
+    page(before = null, limit = RECENT_PAGE_SIZE) {
+      evict();
+      const entries = [...recent.values()]
+        .filter(entry => before === null || entry.seq < before)
+        .reverse();
+      const page = entries.slice(0, limit);
+      return {
+        entities: page.map(entry => entry.entity),
+        next: entries.length > limit ? page[page.length - 1].seq : null,
+      };
+    },
+  };
+}
+
+/**
+ * Change how many recently returned entities each server instance keeps
+ * (default 200), or pass 0 to forget them all.
+ */
+export function setMaxRecentResources(max: number): void {
+  maxRecent = Math.max(0, max);
+}
+
+/**
+ * resources/read result carrying one entity as a JSON document.
+ */
+export function resourceContents(uri: URL, document: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: JSON.stringify(document, null, 2)
+      }
+    ]
+  };
+}
@@ -0,0 +1,79 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CondensedEvent } from './helpers.js';
+import { buildCalendar } from './ics.js';
+import { EntityResource, resourceLinks } from './resources.js';
+
+export type OutputFormat = 'structured' | 'json' | 'markdown' | 'ics';
+
+export interface ToolResultOptions<T> {
+  format: OutputFormat;
+  // Raw upstream response, used as the text block for format "json"
+  raw?: unknown;
+  // Renders the output for format "markdown", see shared/markdown.ts
+  markdown?: (output: T) => string;
+  // Picks the events to export for format "ics", see shared/ics.ts
+  calendar?: (output: T) => CondensedEvent[];
+  // Entities to link as resources, see shared/resources.ts
+  resources?: (output: T) => (EntityResource | null)[];
+}
+
+function formatText<T extends Record<string, any>>(output: T, options: ToolResultOptions<T>): string {
+  if (options.format === 'markdown' && options.markdown) {
+    return options.markdown(output);
+  }
+  if (options.format === 'json' && options.raw !== undefined) {
+    return JSON.stringify(options.raw, null, 2);
+  }
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Build a successful tool result. structuredContent carries the output, which
+ * must match the tool's outputSchema. The text block depends on the requested
+ * format: the same output as JSON ("structured"), the raw upstream response
+ * ("json") or the markdown rendering of the output ("markdown"). Format "ics"
+ * adds the events as an iCalendar embedded resource after a short text summary.
+ * Linked entities follow as resource_link items, which the server remembers
+ * for resources/list.
+ */
+export function toolResult<T extends Record<string, any>>(output: T, options: ToolResultOptions<T>): CallToolResult {
+  const content: CallToolResult['content'] = [];
+
+  if (options.format === 'ics' && options.calendar) {
+    const calendar = buildCalendar(options.calendar(output));
+    const skipped = calendar.skipped.length > 0
+      ? ` Skipped ${calendar.skipped.length} event(s) with a date still to be announced: ${calendar.skipped.join(', ')}.`
+      : '';
+    content.push(
+      {
+        type: 'text',
+        text: `Calendar with ${calendar.event_count} event(s) attached as ${calendar.uri}.${skipped}`
+      },
+      {
+        type: 'resource',
+        resource: {
+          uri: calendar.uri,
+          mimeType: 'text/calendar',
+          text: calendar.text
+        }
+      }
+    );
+  } else {
+    content.push({ type: 'text', text: formatText(output, options) });
+  }
+
+  if (options.resources) {
+    const entities = new Map<string, EntityResource>();
+    for (const entity of options.resources(output)) {
+      if (entity && !entities.has(entity.uri)) {
+        entities.set(entity.uri, entity);
+      }
+    }
+    content.push(...resourceLinks([...entities.values()]));
+  }
+
+  return {
+    content,
+    structuredContent: output,
+  };
+}
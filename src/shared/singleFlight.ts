@@ -0,0 +1,31 @@
+/**
+ * Single-flight deduplication: concurrent calls with the same key share one
+ * underlying promise. The entry is dropped once it settles, so later calls start
+ * a fresh request, and a failure rejects every waiter.
+ */
+export interface SingleFlight {
+  run<T>(key: string, fn: () => Promise<T>): Promise<T>;
+  readonly inFlight: number;
+}
+
+export function createSingleFlight(): SingleFlight {
+  const pending = new Map<string, Promise<any>>();
+
+  return {
+    run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+      const existing = pending.get(key);
+      if (existing) {
+        return existing;
+      }
+
+      const promise = fn().finally(() => {
+        pending.delete(key);
+      });
+      pending.set(key, promise);
+      return promise;
+    },
+    get inFlight() {
+      return pending.size;
+    },
+  };
+}
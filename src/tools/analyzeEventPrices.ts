@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { AxiosError } from 'axios';
+import { fetchJson, FetchOptions, EVENTS_ENDPOINT } from '../shared/core.js';
+import { classifyError, toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { eventEntity } from '../shared/resources.js';
+import { priceAnalysisMarkdown } from '../shared/markdown.js';
+import { CondensedEvent, condenseEventData } from '../shared/helpers.js';
+import { mapSettledWithConcurrency, getFanoutConcurrency } from '../shared/concurrency.js';
+
+const EventPricesQuerySchema = z.object({
+  event_ids: z.array(z.number()).min(1).max(20),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured'),
+});
+
+const inputSchema = {
+  event_ids: z.array(z.number()).min(1).max(20).describe('One or more event ids (up to 20) to analyze. These IDs are obtained from find_events or another event result.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  events: z.array(z.object({
+    event_id: z.number(),
+    title: z.string().nullable(),
+    datetime_local: z.string().nullable(),
+    venue: z.string().nullable(),
+    url: z.string().nullable(),
+    cheapest_entry: z.number().nullable(),
+    median_price: z.number().nullable(),
+    average_price: z.number().nullable(),
+    highest_price: z.number().nullable(),
+    price_spread: z.number().nullable(),
+    listing_count: z.number().nullable(),
+  })),
+  cheapest_entry: z.object({
+    event_id: z.number(),
+    title: z.string().nullable(),
+    price: z.number().nullable(),
+    url: z.string().nullable(),
+  }).nullable(),
+  not_found: z.array(z.number()).describe('Requested event ids that do not exist'),
+  failed: z.array(z.object({ event_id: z.number(), error: z.string() })).describe('Requested event ids that could not be fetched, e.g. because SeatGeek timed out, and why'),
+};
+
+interface EventPriceAnalysis {
+  event_id: number;
+  title: string | null;
+  datetime_local: string | null;
+  venue: string | null;
+  url: string | null;
+  cheapest_entry: number | null;
+  median_price: number | null;
+  average_price: number | null;
+  highest_price: number | null;
+  price_spread: number | null;
+  listing_count: number | null;
+}
+
+function analyzeEvent(event: CondensedEvent): EventPriceAnalysis {
+  const pricing = event.pricing;
+  const lowest = pricing?.lowest_price ?? null;
+  const highest = pricing?.highest_price ?? null;
+
+  return {
+    event_id: event.id,
+    title: event.title,
+    datetime_local: event.datetime_local,
+    venue: event.venue ? [event.venue.name, event.venue.display_location].filter(Boolean).join(', ') : null,
+    url: event.url,
+    cheapest_entry: lowest,
+    median_price: pricing?.median_price ?? null,
+    average_price: pricing?.average_price ?? null,
+    highest_price: highest,
+    price_spread: lowest !== null && highest !== null ? highest - lowest : null,
+    listing_count: pricing?.listing_count ?? null,
+  };
+}
+
+/**
+ * Fetch a single event by id, returning null when it does not exist.
+ */
+async function fetchEvent(eventId: number, options: FetchOptions = {}): Promise<any | null> {
+  try {
+    const data = await fetchJson(`${EVENTS_ENDPOINT}/${eventId}`, {}, options);
+    return data && data.id ? data : null;
+  } catch (error) {
+    if ((error as AxiosError).response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Analyze ticket prices for one or more events.
+ *
+ * Calls GET /events/{id} for each event id with bounded concurrency and reads the
+ * event stats block. Ids that fail are reported in `failed`; the tool only fails if
+ * every id does.
+ *
+ * Returns the price spread, cheapest-entry price and listing depth for each event,
+ * along with the cheapest way in across all of them.
+ */
+export const analyzeEventPricesTool = {
+  name: 'analyze_event_prices',
+  description: 'Analyze ticket prices for one or more events by id. Reports the cheapest-entry price, median, average and highest prices, the price spread and the number of listings for each event, plus the cheapest way in across all of them. Use this to answer questions like "what\'s the cheapest way in".',
+  inputSchema: inputSchema,
+  outputSchema: outputSchema,
+  handler: async (args: any, extra: any) => {
+    try {
+      const params = EventPricesQuerySchema.parse(args);
+      const uniqueIds = [...new Set(params.event_ids)];
+
+      const settled = await mapSettledWithConcurrency(uniqueIds, getFanoutConcurrency(), eventId => fetchEvent(eventId, { cache: params.cache }));
+      if (settled.every(outcome => outcome.status === 'rejected')) {
+        throw (settled[0] as PromiseRejectedResult).reason;
+      }
+
+      const eventsRaw: any[] = [];
+      const notFound: number[] = [];
+      const failed: { event_id: number, error: string }[] = [];
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'rejected') {
+          console.warn(`Failed to fetch event ${uniqueIds[index]}:`, outcome.reason);
+          failed.push({ event_id: uniqueIds[index], error: classifyError(outcome.reason).message });
+        } else if (outcome.value === null) {
+          notFound.push(uniqueIds[index]);
+        } else {
+          eventsRaw.push(outcome.value);
+        }
+      });
+
+      const analyses: EventPriceAnalysis[] = [];
+      for (const item of eventsRaw) {
+        try {
+          analyses.push(analyzeEvent(condenseEventData(item)));
+        } catch (error) {
+          // Skip invalid events
+          console.warn('Skipping invalid event:', error);
+        }
+      }
+
+      // Find the cheapest way in across all priced events
+      const priced = analyses.filter(analysis => analysis.cheapest_entry !== null);
+      const cheapest = priced.reduce<EventPriceAnalysis | null>(
+        (best, analysis) => best === null || analysis.cheapest_entry! < best.cheapest_entry! ? analysis : best,
+        null
+      );
+
+      const output = {
+        events: analyses,
+        cheapest_entry: cheapest ? {
+          event_id: cheapest.event_id,
+          title: cheapest.title,
+          price: cheapest.cheapest_entry,
+          url: cheapest.url,
+        } : null,
+        not_found: notFound,
+        failed: failed,
+      };
+      return toolResult(output, {
+        format: params.format,
+        raw: { events: eventsRaw, not_found: notFound, failed: failed },
+        markdown: priceAnalysisMarkdown,
+        resources: ({ events }) => events.map(event => eventEntity({ id: event.event_id, title: event.title, datetime_local: event.datetime_local })),
+      });
+    } catch (error) {
+      console.error('Error in analyze_event_prices handler:', error);
+      return toolErrorResult(error, {
+        summary: 'Failed to analyze event prices',
+        endpoint: EVENTS_ENDPOINT,
+      });
+    }
+  },
+};
@@ -1,7 +1,17 @@
 import { z } from 'zod';
+import { CondensedEventSchema, PageInfoShape, ResolvedDatesSchema, FilteredOutSchema } from '../schemas/outputModels.js';
 import { fetchJson, RECOMMENDATIONS_ENDPOINT } from '../shared/core.js';
-import { searchPerformers, searchEvents } from '../shared/endpoints.js';
-import { CondensedEvent, condenseEventData } from '../shared/helpers.js';
+import { toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { applyWhen, resolvedOutput } from '../shared/dates.js';
+import { applyLocalWindow, filterByLocalTime, filterRawEvents, DAY_FILTERS, TIMES_OF_DAY } from '../shared/localFilters.js';
+import { eventEntity } from '../shared/resources.js';
+import { eventListMarkdown } from '../shared/markdown.js';
+import { fetchPerformerSearch, fetchEventSearch } from '../shared/endpoints.js';
+import { CondensedEvent, condenseEventData, buildTaxonomyFilter, sortEvents } from '../shared/helpers.js';
+import { resolveOrigin, applyDistances, checkDistanceSort, requireDistanceOrigin } from '../shared/geo.js';
+import { mapSettledWithConcurrency, getFanoutConcurrency } from '../shared/concurrency.js';
+import { CursorState, pageFromMeta, toPageInfo, fetchRequestedPages } from '../shared/pagination.js';
 
 // Schema for event recommendations
 const EventRecommendationsQuerySchema = z.object({
@@ -13,22 +23,34 @@ const EventRecommendationsQuerySchema = z.object({
   range: z.string().nullable().optional(),
   start_utc: z.string().nullable().optional(),
   end_utc: z.string().nullable().optional(),
+  when: z.string().nullable().optional(),
+  timezone: z.string().nullable().optional(),
+  start_local: z.string().nullable().optional(),
+  end_local: z.string().nullable().optional(),
+  days_of_week: z.array(z.enum(DAY_FILTERS)).nullable().optional(),
+  times_of_day: z.array(z.enum(TIMES_OF_DAY)).nullable().optional(),
+  taxonomy: z.string().nullable().optional(),
+  sort: z.enum(['distance']).nullable().optional(),
+  distance_unit: z.enum(['mi', 'km']).default('mi'),
   per_page: z.number().min(1).max(50).default(10),
   page: z.number().min(1).default(1),
-  format: z.enum(['structured', 'json']).default('structured'),
+  cursor: z.string().nullable().optional(),
+  fetch_all: z.boolean().default(false),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown', 'ics']).default('structured'),
 });
 
 type EventRecommendationsQuery = z.infer<typeof EventRecommendationsQuerySchema>;
 
-function buildQuery(params: EventRecommendationsQuery, performerId?: number, eventId?: number): Record<string, any> {
+function buildQuery(params: EventRecommendationsQuery, performerId?: number, eventId?: number, page: number = params.page, perPage: number = params.per_page): Record<string, any> {
   const query: Record<string, any> = {
     "geoip": params.geoip,
     "lat": params.lat,
     "lon": params.lon,
     "postal_code": params.postal_code,
     "range": params.range,
-    per_page: Math.min(params.per_page, 50),
-    page: params.page,
+    per_page: Math.min(perPage, 50),
+    page: page,
   };
   
   // Add performer and event IDs if provided
@@ -49,6 +71,8 @@ function buildQuery(params: EventRecommendationsQuery, performerId?: number, eve
     query["datetime_utc.lte"] = params.end_utc;
   }
   
+  Object.assign(query, buildTaxonomyFilter(params.taxonomy));
+  
   // Drop null/undefined values to avoid noisy query strings
   const filteredQuery: Record<string, any> = {};
   for (const [key, value] of Object.entries(query)) {
@@ -67,11 +91,36 @@ const inputSchema = {
   lon: z.number().optional().describe('Longitude coordinate for location-based recommendations. Use with lat and optionally range.'),
   postal_code: z.string().optional().describe('Postal code for location-based recommendations. Use with country code for better accuracy.'),
   range: z.string().optional().describe('Search radius for location-based recommendations (e.g., "50mi", "25km"). Use with lat/lon or postal_code.'),
-  start_utc: z.string().optional().describe('Start date filter in ISO8601 UTC format (YYYY-MM-DD). Use for date ranges like "next month" or "this weekend".'),
+  start_utc: z.string().optional().describe('Start date filter in ISO8601 UTC format (YYYY-MM-DD). Use when the user gave exact dates; for phrases like "next month" or "this weekend" use when instead.'),
   end_utc: z.string().optional().describe('End date filter in ISO8601 UTC format (YYYY-MM-DD). Use with start_utc to define date ranges.'),
+  when: z.string().optional().describe('Natural-language date range, e.g. "tonight", "this weekend", "next friday", "next month", "between Oct 3 and Oct 10" or "the next 12 weeks". Resolved on the server in the user\'s timezone and used instead of start_utc/end_utc; the resolved range is returned as resolved_dates. Prefer it over computing dates yourself.'),
+  timezone: z.string().optional().describe('The user\'s IANA timezone for resolving when, e.g. "America/Los_Angeles". Defaults to the server\'s timezone.'),
+  start_local: z.string().optional().describe('Start of the range in each venue\'s local time (YYYY-MM-DD or YYYY-MM-DDTHH:MM). Use for "shows on Friday in LA" so late shows that fall on Saturday in UTC are still found.'),
+  end_local: z.string().optional().describe('End of the range in each venue\'s local time (YYYY-MM-DD or YYYY-MM-DDTHH:MM). A bare date includes the whole day.'),
+  days_of_week: z.array(z.enum(DAY_FILTERS)).optional().describe('Only events starting on these local days, e.g. ["friday", "saturday"], or "weekday" (Monday to Friday) and "weekend" (Saturday and Sunday).'),
+  times_of_day: z.array(z.enum(TIMES_OF_DAY)).optional().describe('Only events starting at these local times: "morning" (5am-noon), "afternoon" (noon-5pm, e.g. matinees), "evening" (5-10pm) or "late_night" (10pm-5am). Use ["evening"] with days_of_week ["weekend"] for "weekend evenings only".'),
+  taxonomy: z.string().optional().describe('Category name or id to filter by, e.g., "concert", "comedy", "sports" or "nba". Parent categories include their subcategories. Use list_categories to find valid names.'),
+  sort: z.enum(['distance']).optional().describe('Sort order for results. Use "distance" to order by distance from the user location (lat/lon, postal_code or geoip), nearest first. SeatGeek cannot sort by distance, so this only reorders the events on the returned page; use fetch_all with a range for the nearest overall.'),
+  distance_unit: z.enum(['mi', 'km']).default('mi').describe('Unit for the distance field on each event when a user location is supplied. Default is "mi".'),
   per_page: z.number().min(1).max(50).default(10).describe('Number of results to return per page (1-50). Default is 10.'),
-  page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1.'),
-  format: z.enum(['structured', 'json']).default('structured').describe('Output format. Use "structured" for readable format (default) or "json" for raw API response. Only use "json" if explicitly requested.'),
+  page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1. Prefer cursor when continuing from a previous result.'),
+  cursor: z.string().optional().describe('Opaque next_cursor value from a previous find_event_recommendations result with the same search parameters. Resumes exactly where that result stopped.'),
+  fetch_all: z.boolean().default(false).describe('Fetch all matching results instead of a single page, up to a hard cap of 500 results. Only use when the user needs the complete list.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown', 'ics']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, "ics" for an iCalendar file the user can add to their calendar, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  events: z.array(CondensedEventSchema),
+  ...PageInfoShape,
+  resolved_dates: ResolvedDatesSchema.optional(),
+  filtered_out: FilteredOutSchema,
+  seed_search: z.object({
+    searched: z.array(z.string()),
+    failed: z.array(z.object({ slug: z.string(), error: z.string() })),
+    lookup_error: z.string().nullable(),
+    seed_event_id: z.number().nullable(),
+  }).optional().describe('Status of the lookups that turn q into a seed event, present when q was given. lookup_error is set when the performer or event search itself failed and the recommendations are not seeded by q'),
 };
 
 /**
@@ -87,17 +136,24 @@ export const findEventRecommendationsTool = {
   name: 'find_event_recommendations',
   description: 'Get personalized event recommendations based on performers, events, or location. This tool first searches for performers and/or events based on the query (q parameter), then uses the IDs to find similar events. Use location parameters (geoip, lat/lon, postal_code) for nearby events.',
   inputSchema: inputSchema,
+  outputSchema: outputSchema,
   handler: async (args: any, extra: any) => {
     try {
-      const params = EventRecommendationsQuerySchema.parse(args);
+      const { params: datedParams, resolvedDates } = applyWhen(EventRecommendationsQuerySchema.parse(args));
+      const params = applyLocalWindow(datedParams);
+      checkDistanceSort(params);
       let performerId: number | null = null;
       let eventId: number | null = null;
+      // Which seed lookups were tried and which failed, reported alongside the results
+      let searchedSlugs: string[] = [];
+      const failures: { slug: string, error: string }[] = [];
+      let lookupError: string | null = null;
       
       // If we have a q parameter, try to look up performer and event IDs
       if (params.q) {
         try {
           // First try to find performers with the query
-          const performers = await searchPerformers(params.q, params.per_page, 1);
+          const performers = await fetchPerformerSearch(params.q, params.per_page, 1, { cache: params.cache });
           
           // If we found performers, aggregate unique performer slugs and make Promise.all query
           if (performers.length > 0) {
@@ -105,21 +161,25 @@ export const findEventRecommendationsTool = {
             const uniqueSlugs = [...new Set(performers.map((p: any) => p.slug).filter(Boolean))] as string[];
             
             if (uniqueSlugs.length > 0) {
-              // Create promises for each unique performer slug
-              const promises = uniqueSlugs.map(slug => {
-                return searchEvents(slug, params.per_page, { "performers.slug": slug });
+              searchedSlugs = uniqueSlugs;
+              // Search each unique performer slug with bounded concurrency
+              const results = await mapSettledWithConcurrency(uniqueSlugs, getFanoutConcurrency(), slug => {
+                return fetchEventSearch(slug, params.per_page, { "performers.slug": slug }, { cache: params.cache });
               });
               
-              // Execute all promises
-              const results = await Promise.all(promises);
-              
-              // Merge events from all results
+              // Merge events from all successful results
               const allEvents: any[] = [];
-              for (const result of results) {
-                if (Array.isArray(result)) {
-                  allEvents.push(...result);
+              results.forEach((result, index) => {
+                if (result.status === 'fulfilled') {
+                  if (Array.isArray(result.value)) {
+                    allEvents.push(...result.value);
+                  }
+                } else {
+                  const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+                  console.warn(`Failed to fetch events for performer ${uniqueSlugs[index]}:`, result.reason);
+                  failures.push({ slug: uniqueSlugs[index], error: reason });
                 }
-              }
+              });
               
               // Remove duplicates based on event id
               const eventIds = new Set();
@@ -137,14 +197,14 @@ export const findEventRecommendationsTool = {
               }
             } else {
               // If no valid slugs found, search events directly with the q parameter
-              const events = await searchEvents(params.q, params.per_page, {});
+              const events = await fetchEventSearch(params.q, params.per_page, {}, { cache: params.cache });
               if (events.length > 0 && events[0].id) {
                 eventId = events[0].id;
               }
             }
           } else {
             // If no performer found, search events directly with the q parameter
-            const events = await searchEvents(params.q, params.per_page, {});
+            const events = await fetchEventSearch(params.q, params.per_page, {}, { cache: params.cache });
             if (events.length > 0 && events[0].id) {
               eventId = events[0].id;
             }
@@ -152,30 +212,35 @@ export const findEventRecommendationsTool = {
         } catch (error) {
           // If lookup fails, continue with original query
           console.warn('Failed to lookup performer or event, continuing with original query:', error);
+          lookupError = error instanceof Error ? error.message : String(error);
         }
       }
       
-      // Build query with found IDs (convert null to undefined for TypeScript)
-      const query = buildQuery(
-        params, 
-        performerId !== null ? performerId : undefined, 
-        eventId !== null ? eventId : undefined
-      );
-      const data = await fetchJson(RECOMMENDATIONS_ENDPOINT, query);
+      const seedSearch = params.q ? {
+        searched: searchedSlugs,
+        failed: failures,
+        lookup_error: lookupError,
+        seed_event_id: eventId,
+      } : undefined;
       
-      if (params.format === 'json') {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(data, null, 2)
-            }
-          ]
-        };
-      }
+      // Build query with found IDs (convert null to undefined for TypeScript)
+      const result = await fetchRequestedPages<any>(params, async (state: CursorState, pageSize: number) => {
+        const perPage = state.per_page ?? pageSize;
+        const query = buildQuery(
+          params, 
+          performerId !== null ? performerId : undefined, 
+          eventId !== null ? eventId : undefined,
+          state.page,
+          perPage
+        );
+        const pageData = await fetchJson(RECOMMENDATIONS_ENDPOINT, query, { cache: params.cache });
+        const items = Array.isArray(pageData) ? pageData : (pageData.recommendations || []);
+        return pageFromMeta(items, Array.isArray(pageData) ? undefined : pageData.meta, state, perPage);
+      });
+      const data = { recommendations: result.items, meta: result.meta };
       
       // Extract events from recommendations
-      const recommendationsRaw = Array.isArray(data) ? data : (data.recommendations || []);
+      const recommendationsRaw = data.recommendations;
       const results: CondensedEvent[] = [];
       
       for (const item of recommendationsRaw) {
@@ -191,40 +256,32 @@ export const findEventRecommendationsTool = {
           console.warn('Skipping invalid event recommendation:', error);
         }
       }
+      
+      const localFiltered = filterByLocalTime(results, params);
+      const { events: localResults, ...localSummary } = localFiltered;
+      
+      // Compute distances locally from the user location, if one was supplied
+      const origin = resolveOrigin(params.lat, params.lon, data.meta);
+      if (origin) {
+        applyDistances(localResults, origin, params.distance_unit);
+      }
+      requireDistanceOrigin(params.sort, origin);
+      const sortedResults = params.sort === 'distance' ? sortEvents(localResults, 'distance') : localResults;
             
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(results, null, 2)
-          }
-        ]
-      };
+      const output = { events: sortedResults, ...toPageInfo(result), seed_search: seedSearch, ...resolvedOutput(resolvedDates), ...localSummary };
+      return toolResult(output, {
+        format: params.format,
+        raw: { ...data, recommendations: filterRawEvents(recommendationsRaw, localFiltered, item => item.event), ...toPageInfo(result), seed_search: seedSearch },
+        markdown: eventListMarkdown,
+        calendar: ({ events }) => events,
+        resources: ({ events }) => events.map(eventEntity),
+      });
     } catch (error) {
       console.error('Error in find_event_recommendations handler:', error);
-      
-      // Provide more detailed error information
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      const errorDetails = {
-        error: 'API_REQUEST_FAILED',
-        message: errorMessage,
-        timestamp: new Date().toISOString(),
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch event recommendations',
         endpoint: RECOMMENDATIONS_ENDPOINT,
-        args: args
-      };
-      
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              error: 'Failed to fetch event recommendations',
-              details: errorDetails,
-              suggestion: 'Please check your parameters and try again. Common issues include invalid performer IDs, event IDs, or location parameters.'
-            }, null, 2)
-          }
-        ]
-      };
+      });
     }
   },
 };
@@ -1,8 +1,18 @@
 import { z } from 'zod';
 import { EventSchema, Event } from '../schemas/eventModels.js';
+import { CondensedEventSchema, PageInfoShape, ResolvedDatesSchema, FilteredOutSchema } from '../schemas/outputModels.js';
 import { fetchJson } from '../shared/core.js';
+import { ToolError, toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { applyWhen, resolvedOutput } from '../shared/dates.js';
+import { applyLocalWindow, filterByLocalTime, filterRawEvents, DAY_FILTERS, TIMES_OF_DAY } from '../shared/localFilters.js';
+import { eventEntity } from '../shared/resources.js';
+import { eventListMarkdown } from '../shared/markdown.js';
 import { EVENTS_ENDPOINT, PERFORMERS_ENDPOINT, searchPerformers } from '../shared/endpoints.js';
-import { CondensedEvent, condenseEventData } from '../shared/helpers.js';
+import { CondensedEvent, condenseEventData, buildTaxonomyFilter, compareEvents, sortEvents, EventSort, UPSTREAM_EVENT_SORT } from '../shared/helpers.js';
+import { resolveOrigin, applyDistances, checkDistanceSort, requireDistanceOrigin } from '../shared/geo.js';
+import { mapSettledWithConcurrency, getFanoutConcurrency } from '../shared/concurrency.js';
+import { CursorState, Page, initialCursorState, pageFromMeta, toPageInfo, collectPages, fetchRequestedPages } from '../shared/pagination.js';
 
 // Events query schema
 const EventsQuerySchema = z.object({
@@ -10,21 +20,45 @@ const EventsQuerySchema = z.object({
   venue_city: z.string().nullable().optional(),
   venue_state: z.string().nullable().optional(),
   venue_country: z.string().nullable().optional(),
+  geoip: z.boolean().nullable().optional(),
+  lat: z.number().nullable().optional(),
+  lon: z.number().nullable().optional(),
+  postal_code: z.string().nullable().optional(),
+  range: z.string().nullable().optional(),
   start_utc: z.string().nullable().optional(),
   end_utc: z.string().nullable().optional(),
+  when: z.string().nullable().optional(),
+  timezone: z.string().nullable().optional(),
+  start_local: z.string().nullable().optional(),
+  end_local: z.string().nullable().optional(),
+  days_of_week: z.array(z.enum(DAY_FILTERS)).nullable().optional(),
+  times_of_day: z.array(z.enum(TIMES_OF_DAY)).nullable().optional(),
+  min_price: z.number().min(0).nullable().optional(),
+  max_price: z.number().min(0).nullable().optional(),
+  taxonomy: z.string().nullable().optional(),
+  sort: z.enum(['date_asc', 'date_desc', 'popularity', 'lowest_price', 'distance']).nullable().optional(),
+  distance_unit: z.enum(['mi', 'km']).default('mi'),
   per_page: z.number().min(1).max(50).default(10),
   page: z.number().min(1).default(1),
-  format: z.enum(['structured', 'json']).default('structured'),
+  cursor: z.string().nullable().optional(),
+  fetch_all: z.boolean().default(false),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown', 'ics']).default('structured'),
 });
 
 type EventsQuery = z.infer<typeof EventsQuerySchema>;
 
-function buildQuery(params: EventsQuery, performerSlug?: string): Record<string, any> {
+function buildQuery(params: EventsQuery, performerSlug?: string, page: number = params.page, perPage: number = params.per_page): Record<string, any> {
   const query: Record<string, any> = {
-    per_page: Math.min(params.per_page, 50),
-    page: params.page,
+    per_page: Math.min(perPage, 50),
+    page: page,
   };
 
+  // Apply the sort upstream where SeatGeek supports it; it is re-applied locally after merging
+  if (params.sort && UPSTREAM_EVENT_SORT[params.sort]) {
+    query.sort = UPSTREAM_EVENT_SORT[params.sort];
+  }
+
   // If we have a performer slug, use it instead of the general q parameter
   // and don't include venue information as requested
   if (performerSlug) {
@@ -45,6 +79,22 @@ function buildQuery(params: EventsQuery, performerSlug?: string): Record<string,
     }
   }
 
+  // Geolocation filters apply to both the direct search and the per-performer fan-out,
+  // so "Phoebe Bridgers near me" keeps the performer filter and narrows by location
+  if (params.geoip) {
+    query.geoip = params.geoip;
+  }
+  if (params.lat !== null && params.lat !== undefined && params.lon !== null && params.lon !== undefined) {
+    query.lat = params.lat;
+    query.lon = params.lon;
+  }
+  if (params.postal_code) {
+    query.postal_code = params.postal_code;
+  }
+  if (params.range) {
+    query.range = params.range;
+  }
+
   if (params.start_utc) {
     query["datetime_utc.gte"] = params.start_utc;
   }
@@ -53,6 +103,17 @@ function buildQuery(params: EventsQuery, performerSlug?: string): Record<string,
     query["datetime_utc.lte"] = params.end_utc;
   }
 
+  // Price filters apply to the cheapest available listing
+  if (params.min_price !== null && params.min_price !== undefined) {
+    query["lowest_price.gte"] = params.min_price;
+  }
+
+  if (params.max_price !== null && params.max_price !== undefined) {
+    query["lowest_price.lte"] = params.max_price;
+  }
+
+  Object.assign(query, buildTaxonomyFilter(params.taxonomy));
+
   // Drop null/undefined values to avoid noisy query strings
   const filteredQuery: Record<string, any> = {};
   for (const [key, value] of Object.entries(query)) {
@@ -64,16 +125,216 @@ function buildQuery(params: EventsQuery, performerSlug?: string): Record<string,
   return filteredQuery;
 }
 
+/**
+ * Fetch one page of a direct (non-performer) event search.
+ */
+async function fetchDirectPage(params: EventsQuery, state: CursorState, pageSize: number): Promise<Page<any>> {
+  const perPage = state.per_page ?? pageSize;
+  const data = await fetchJson(EVENTS_ENDPOINT, buildQuery(params, undefined, state.page, perPage), { cache: params.cache });
+  return pageFromMeta(data.events || [], data.meta, state, perPage);
+}
+
+// Performers merged for a q that matches performers. Every page fetches each of
+// their event streams, so this stays small regardless of per_page.
+const MERGED_PERFORMER_LIMIT = 5;
+
+interface SlugWindow {
+  slug: string;
+  entries: { raw: any; condensed: CondensedEvent | null }[];
+  index: number;
+  size: number;
+  // Next upstream page of this performer's events; null once the stream is read to the end
+  nextPage: number | null;
+  total: number | null;
+  meta: any;
+}
+
+/**
+ * Fetch the window's next upstream page and append its events, dropping the first
+ * `skip` events that earlier pages already consumed.
+ */
+async function fetchSlugPage(params: EventsQuery, window: SlugWindow, skip: number = 0): Promise<void> {
+  const upstreamPage = window.nextPage!;
+  const data = await fetchJson(EVENTS_ENDPOINT, buildQuery(params, window.slug, upstreamPage, window.size), { cache: params.cache });
+  const events: any[] = data.events || [];
+  const total = typeof data.meta?.total === 'number' ? data.meta.total : null;
+
+  window.entries.push(...events.slice(skip).map(raw => {
+    try {
+      return { raw, condensed: condenseEventData(raw) };
+    } catch (error) {
+      console.warn('Skipping invalid event:', error);
+      return { raw, condensed: null };
+    }
+  }));
+  window.total = total;
+  window.meta = window.meta ?? data.meta;
+
+  const read = (upstreamPage - 1) * window.size + events.length;
+  window.nextPage = events.length < window.size || (total !== null && read >= total) ? null : upstreamPage + 1;
+}
+
+/**
+ * Open one performer's event stream at `offset`, reading the upstream page of
+ * `size` events that holds it. Later pages are only fetched if the merge gets to them.
+ */
+async function openSlugWindow(params: EventsQuery, slug: string, offset: number, size: number): Promise<SlugWindow> {
+  const window: SlugWindow = { slug, entries: [], index: 0, size, nextPage: Math.floor(offset / size) + 1, total: null, meta: undefined };
+  await fetchSlugPage(params, window, offset % size);
+  return window;
+}
+
+/**
+ * Fetch one page of a merged multi-performer search.
+ *
+ * Each performer's events are fetched from where the cursor left off and merged in
+ * sort order, so pages continue where the previous one stopped instead of applying
+ * the page number to every performer independently. Sorts SeatGeek cannot apply
+ * upstream (price, distance) are merged in date order and sorted within the page.
+ * Performers whose events were all returned are listed in the cursor and not fetched
+ * again.
+ *
+ * Performer searches run with bounded concurrency. A performer whose search fails is
+ * recorded in `failures` and left out of the page. Its cursor offset is unchanged, so
+ * later pages retry it while other performers still have results; the page only fails
+ * if every performer search fails.
+ */
+async function fetchMergedPage(params: EventsQuery, slugs: string[], state: CursorState, pageSize: number, failures: Map<string, string>): Promise<Page<any>> {
+  const mergeSort: EventSort = params.sort && UPSTREAM_EVENT_SORT[params.sort] ? params.sort : 'date_asc';
+  const mergeParams = { ...params, sort: mergeSort };
+  const offsets: Record<string, number> = { ...(state.offsets || {}) };
+  const advance = (slug: string) => {
+    offsets[slug] = (offsets[slug] ?? 0) + 1;
+  };
+
+  const exhausted = new Set(state.exhausted || []);
+  const active = slugs.filter(slug => !exhausted.has(slug));
+  const recordFailure = (slug: string, error: unknown) => {
+    console.warn(`Failed to fetch events for performer ${slug}:`, error);
+    failures.set(slug, error instanceof Error ? error.message : String(error));
+  };
+
+  const settled = await mapSettledWithConcurrency(active, getFanoutConcurrency(), slug => openSlugWindow(mergeParams, slug, offsets[slug] ?? 0, pageSize));
+  const windows: SlugWindow[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      windows.push(outcome.value);
+      failures.delete(active[index]);
+    } else {
+      recordFailure(active[index], outcome.reason);
+    }
+  });
+
+  if (windows.length === 0 && settled.length > 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  // Events shared between performers appear in several streams; only return them once
+  const seen = new Set<number>(state.seen || []);
+  const items: any[] = [];
+
+  merge: while (items.length < pageSize) {
+    let best: SlugWindow | null = null;
+    for (const window of windows) {
+      while (window.index < window.entries.length && !window.entries[window.index].condensed) {
+        window.index++;
+        advance(window.slug);
+      }
+      if (window.index >= window.entries.length && window.nextPage !== null) {
+        try {
+          await fetchSlugPage(mergeParams, window);
+        } catch (error) {
+          // Cannot order past the end of a partially fetched stream; the next page resumes here
+          recordFailure(window.slug, error);
+          break merge;
+        }
+        continue merge;
+      }
+      if (window.index >= window.entries.length) {
+        continue;
+      }
+      if (!best || compareEvents(window.entries[window.index].condensed!, best.entries[best.index].condensed!, mergeSort) < 0) {
+        best = window;
+      }
+    }
+
+    if (!best) {
+      break;
+    }
+
+    const entry = best.entries[best.index++];
+    advance(best.slug);
+    if (seen.has(entry.raw.id)) {
+      continue;
+    }
+    seen.add(entry.raw.id);
+    items.push(entry.raw);
+  }
+
+  for (const window of windows) {
+    if (window.index >= window.entries.length && window.nextPage === null) {
+      exhausted.add(window.slug);
+    }
+  }
+  const hasMore = windows.some(window => !exhausted.has(window.slug));
+
+  // Per-performer totals overlap when events share performers, so the sum is an upper
+  // bound. Exhausted performers count the events read from them.
+  const totals = windows.filter(window => !exhausted.has(window.slug)).map(window => window.total);
+  const total = totals.every(value => value !== null)
+    ? totals.reduce<number>((sum, value) => sum + value!, 0) + [...exhausted].reduce((sum, slug) => sum + (offsets[slug] ?? 0), 0)
+    : null;
+
+  return {
+    items,
+    total,
+    page: state.page,
+    next: hasMore ? { page: state.page + 1, offsets, seen: items.map(event => event.id), exhausted: [...exhausted] } : null,
+    meta: windows.find(window => window.meta)?.meta,
+  };
+}
+
 const inputSchema = {
   q: z.string().optional().describe('Free-text search term. Use only when no other specific filters match the user request. Keep this text to pronouns if present in the user\'s query unless there are no pronouns in the query. Never duplicate information already captured in other parameters.'),
   venue_city: z.string().optional().describe('City name where the venue is located. Use full city name, e.g., "New York" or "Los Angeles".'),
   venue_state: z.string().optional().describe('State abbreviation where the venue is located, e.g., "CA" for California or "NY" for New York.'),
   venue_country: z.string().optional().describe('Country code where the venue is located, e.g., "US" for United States or "CA" for Canada.'),
-  start_utc: z.string().optional().describe('Start date filter in ISO8601 UTC format (YYYY-MM-DD). Use for date ranges like "next month" or "this weekend".'),
+  geoip: z.boolean().optional().describe('Use IP geolocation to find events near the user, e.g., for "near me". Can be combined with a performer in q.'),
+  lat: z.number().optional().describe('Latitude coordinate to find events near. Use with lon and optionally range.'),
+  lon: z.number().optional().describe('Longitude coordinate to find events near. Use with lat and optionally range.'),
+  postal_code: z.string().optional().describe('Postal code to find events near, e.g., "94110". Use with range to control the search radius.'),
+  range: z.string().optional().describe('Search radius around geoip, lat/lon or postal_code (e.g., "30mi", "50km"). Defaults upstream to 30mi.'),
+  start_utc: z.string().optional().describe('Start date filter in ISO8601 UTC format (YYYY-MM-DD). Use when the user gave exact dates; for phrases like "next month" or "this weekend" use when instead.'),
   end_utc: z.string().optional().describe('End date filter in ISO8601 UTC format (YYYY-MM-DD). Use with start_utc to define date ranges.'),
+  when: z.string().optional().describe('Natural-language date range, e.g. "tonight", "this weekend", "next friday", "next month", "between Oct 3 and Oct 10" or "the next 12 weeks". Resolved on the server in the user\'s timezone and used instead of start_utc/end_utc; the resolved range is returned as resolved_dates. Prefer it over computing dates yourself.'),
+  timezone: z.string().optional().describe('The user\'s IANA timezone for resolving when, e.g. "America/Los_Angeles". Defaults to the server\'s timezone.'),
+  start_local: z.string().optional().describe('Start of the range in each venue\'s local time (YYYY-MM-DD or YYYY-MM-DDTHH:MM). Use for "shows on Friday in LA" so late shows that fall on Saturday in UTC are still found.'),
+  end_local: z.string().optional().describe('End of the range in each venue\'s local time (YYYY-MM-DD or YYYY-MM-DDTHH:MM). A bare date includes the whole day.'),
+  days_of_week: z.array(z.enum(DAY_FILTERS)).optional().describe('Only events starting on these local days, e.g. ["friday", "saturday"], or "weekday" (Monday to Friday) and "weekend" (Saturday and Sunday).'),
+  times_of_day: z.array(z.enum(TIMES_OF_DAY)).optional().describe('Only events starting at these local times: "morning" (5am-noon), "afternoon" (noon-5pm, e.g. matinees), "evening" (5-10pm) or "late_night" (10pm-5am). Use ["evening"] with days_of_week ["weekend"] for "weekend evenings only".'),
+  min_price: z.number().min(0).optional().describe('Minimum ticket price in USD. Only returns events whose cheapest listing is at least this price.'),
+  max_price: z.number().min(0).optional().describe('Maximum ticket price in USD. Only returns events whose cheapest listing is at most this price, e.g., 50 for "under $50".'),
+  taxonomy: z.string().optional().describe('Category name or id to filter by, e.g., "concert", "comedy", "sports" or "nba". Parent categories include their subcategories. Use list_categories to find valid names.'),
+  sort: z.enum(['date_asc', 'date_desc', 'popularity', 'lowest_price', 'distance']).optional().describe('Sort order for results: "date_asc" (soonest first), "date_desc" (latest first), "popularity" (highest SeatGeek score first), "lowest_price" (cheapest first) or "distance" (nearest to the user location first; requires lat/lon, postal_code or geoip). SeatGeek cannot sort by price or distance, so "lowest_price" and "distance" only reorder the events on the returned page; use fetch_all with a narrow range for the cheapest or nearest overall.'),
+  distance_unit: z.enum(['mi', 'km']).default('mi').describe('Unit for the distance field on each event when a user location is supplied. Default is "mi".'),
   per_page: z.number().min(1).max(50).default(10).describe('Number of results to return per page (1-50). Default is 10.'),
-  page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1.'),
-  format: z.enum(['structured', 'json']).default('structured').describe('Output format. Use "structured" for readable format (default) or "json" for raw API response. Only use "json" if explicitly requested.'),
+  page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1. Prefer cursor when continuing from a previous result; when q matches performers only page 1 can be requested by number and later pages need cursor.'),
+  cursor: z.string().optional().describe('Opaque next_cursor value from a previous find_events result with the same search parameters. Resumes exactly where that result stopped.'),
+  fetch_all: z.boolean().default(false).describe('Fetch all matching events instead of a single page, up to a hard cap of 500 events. Only use when the user needs the complete list.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown', 'ics']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, "ics" for an iCalendar file the user can add to their calendar, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  events: z.array(CondensedEventSchema),
+  ...PageInfoShape,
+  resolved_dates: ResolvedDatesSchema.optional(),
+  filtered_out: FilteredOutSchema,
+  performer_search: z.object({
+    searched: z.array(z.string()),
+    failed: z.array(z.object({ slug: z.string(), error: z.string() })),
+    fell_back_to_text_search: z.boolean(),
+  }).optional().describe('Status of the per-performer searches, present when the query matched performers'),
 };
 
 /**
@@ -90,82 +351,66 @@ export const findEventsTool = {
   name: 'find_events',
   description: 'Search for events by performer, location, date, or venue. This tool is optimized for finding specific events based on user queries. If the query involves a performer, it first looks up the performer, then finds events for that performer. Otherwise, it searches events directly. Returns structured event data with venue information.',
   inputSchema: inputSchema,
+  outputSchema: outputSchema,
   handler: async (args: any, extra: any) => {
-    const params = EventsQuerySchema.parse(args);
-    
     try {
-      let data: any;
+      const { params: datedParams, resolvedDates } = applyWhen(EventsQuerySchema.parse(args));
+      const params = applyLocalWindow(datedParams);
+      if (typeof params.min_price === 'number' && typeof params.max_price === 'number' && params.min_price > params.max_price) {
+        throw new ToolError('VALIDATION_ERROR', 'min_price is above max_price', {
+          fields: [{ field: 'max_price', message: 'max_price must not be below min_price' }],
+        });
+      }
+      checkDistanceSort(params);
       
       // If we have a query parameter, first check if it's a performer
+      let slugs: string[] = [];
       if (params.q) {
+        const performers = await searchPerformers(params.q, MERGED_PERFORMER_LIMIT, 1, { cache: params.cache });
+        slugs = [...new Set(performers.map((p: any) => p.slug).filter(Boolean))] as string[];
+      }
+      
+      // Which performer searches failed and why, reported alongside the results
+      const failures = new Map<string, string>();
+      let fellBack = false;
+
+      const fetchDirect = (state: CursorState, pageSize: number) => fetchDirectPage(params, state, pageSize);
+
+      let result: Page<any>;
+      if (slugs.length > 0) {
+        // Merged results can only continue from a cursor: walking forward to a page
+        // number would refetch every earlier page for every performer
+        if (params.page > 1 && !params.cursor && !params.fetch_all) {
+          throw new ToolError('VALIDATION_ERROR', 'page cannot be used when q matches performers', {
+            fields: [{ field: 'page', message: 'Request page 1, then pass its next_cursor to continue' }],
+          });
+        }
+
+        // Aggregate events for every matching performer slug, merged across pages
+        const fetchMerged = (state: CursorState, pageSize: number) => fetchMergedPage(params, slugs, state, pageSize, failures);
+        const mergedStart = initialCursorState(params.cursor, 1, params.per_page);
         try {
-          // First try to find performers with the query
-          const performers = await searchPerformers(params.q, params.per_page, 1);
-          
-          // If we found performers, aggregate unique performer slugs and make Promise.all query
-          if (performers.length > 0) {
-            // Get unique performer slugs
-            const uniqueSlugs = [...new Set(performers.map((p: any) => p.slug).filter(Boolean))] as string[];
-            
-            if (uniqueSlugs.length > 0) {
-              // Create promises for each unique performer slug
-              const promises = uniqueSlugs.map(slug => {
-                const query = buildQuery(params, slug);
-                return fetchJson(EVENTS_ENDPOINT, query);
-              });
-              
-              // Execute all promises
-              const results = await Promise.all(promises);
-              
-              // Merge events from all results
-              data = { events: [] };
-              for (const result of results) {
-                if (result.events && Array.isArray(result.events)) {
-                  data.events = data.events.concat(result.events);
-                }
-              }
-              
-              // Remove duplicates based on event id
-              const eventIds = new Set();
-              data.events = data.events.filter((event: any) => {
-                if (eventIds.has(event.id)) {
-                  return false;
-                }
-                eventIds.add(event.id);
-                return true;
-              });
-            } else {
-              // If no valid slugs found, search events directly with the q parameter
-              const query = buildQuery(params);
-              data = await fetchJson(EVENTS_ENDPOINT, query);
-            }
-          } else {
-            // If no performer found, search events directly with the q parameter
-            const query = buildQuery(params);
-            data = await fetchJson(EVENTS_ENDPOINT, query);
-          }
+          result = params.fetch_all
+            ? await collectPages(mergedStart, fetchMerged)
+            : await fetchMerged(mergedStart, params.per_page);
         } catch (error) {
-          // If performer lookup fails, fall back to direct event search
-          console.warn('Failed to lookup performer, falling back to direct event search:', error);
-          const query = buildQuery(params);
-          data = await fetchJson(EVENTS_ENDPOINT, query);
+          // If every performer search fails, fall back to direct event search
+          console.warn('Failed to fetch performer events, falling back to direct event search:', error);
+          fellBack = true;
+          result = await fetchRequestedPages(params, fetchDirect);
         }
       } else {
-        // If no q parameter, search events directly
-        const query = buildQuery(params);
-        data = await fetchJson(EVENTS_ENDPOINT, query);
+        // If no performer found, search events directly with the q parameter
+        result = await fetchRequestedPages(params, fetchDirect);
       }
       
-      if (params.format === 'json') {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(data, null, 2)
-            }
-          ]
-        };
-      }
+      const data = { events: result.items, meta: result.meta };
+      
+      const performerSearch = slugs.length > 0 ? {
+        searched: slugs,
+        failed: [...failures.entries()].map(([slug, error]) => ({ slug, error })),
+        fell_back_to_text_search: fellBack,
+      } : undefined;
       
       const eventsRaw = data.events || [];
       const results: CondensedEvent[] = [];
@@ -181,39 +426,33 @@ export const findEventsTool = {
         }
       }
       
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(results, null, 2)
-          }
-        ]
-      };
+      const localFiltered = filterByLocalTime(results, params);
+      const { events: localResults, ...localSummary } = localFiltered;
+      
+      // Compute distances locally from the user location, if one was supplied
+      const origin = resolveOrigin(params.lat, params.lon, data.meta);
+      if (origin) {
+        applyDistances(localResults, origin, params.distance_unit);
+      }
+      requireDistanceOrigin(params.sort, origin);
+      
+      // Re-apply the sort so merged multi-performer results are consistently ordered
+      const sortedResults = params.sort ? sortEvents(localResults, params.sort) : localResults;
+      
+      const output = { events: sortedResults, ...toPageInfo(result), performer_search: performerSearch, ...resolvedOutput(resolvedDates), ...localSummary };
+      return toolResult(output, {
+        format: params.format,
+        raw: { ...data, events: filterRawEvents(eventsRaw, localFiltered), ...toPageInfo(result), performer_search: performerSearch },
+        markdown: eventListMarkdown,
+        calendar: ({ events }) => events,
+        resources: ({ events }) => events.map(eventEntity),
+      });
     } catch (error) {
       console.error('Error in find_events handler:', error);
-      
-      // Provide more detailed error information
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      const errorDetails = {
-        error: 'API_REQUEST_FAILED',
-        message: errorMessage,
-        timestamp: new Date().toISOString(),
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch events',
         endpoint: EVENTS_ENDPOINT,
-        args: args
-      };
-      
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              error: 'Failed to fetch events',
-              details: errorDetails,
-              suggestion: 'Please check your parameters and try again. Common issues include invalid search terms or venue codes.'
-            }, null, 2)
-          }
-        ]
-      };
+      });
     }
   },
 };
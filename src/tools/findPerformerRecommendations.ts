@@ -1,7 +1,14 @@
 import { z } from 'zod';
-import { PerformerSchema, Performer } from '../schemas/eventModels.js';
+import { CondensedPerformerSchema, PageInfoShape, ResolvedDatesSchema } from '../schemas/outputModels.js';
 import { fetchJson, RECOMMENDATIONS_ENDPOINT } from '../shared/core.js';
+import { toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { applyWhen, resolvedOutput } from '../shared/dates.js';
+import { performerEntity } from '../shared/resources.js';
+import { performerListMarkdown } from '../shared/markdown.js';
 import { searchPerformers, searchEvents } from '../shared/endpoints.js';
+import { CondensedPerformer, buildTaxonomyFilter, condensePerformerData } from '../shared/helpers.js';
+import { CursorState, pageFromMeta, toPageInfo, fetchRequestedPages } from '../shared/pagination.js';
 
 // Schema for performer recommendations
 const PerformerRecommendationsQuerySchema = z.object({
@@ -12,17 +19,23 @@ const PerformerRecommendationsQuerySchema = z.object({
   venue_country: z.string().nullable().optional(),
   start_utc: z.string().nullable().optional(),
   end_utc: z.string().nullable().optional(),
+  when: z.string().nullable().optional(),
+  timezone: z.string().nullable().optional(),
+  taxonomy: z.string().nullable().optional(),
   per_page: z.number().min(1).max(50).default(10),
   page: z.number().min(1).default(1),
-  format: z.enum(['structured', 'json']).default('structured'),
+  cursor: z.string().nullable().optional(),
+  fetch_all: z.boolean().default(false),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured'),
 });
 
 type PerformerRecommendationsQuery = z.infer<typeof PerformerRecommendationsQuerySchema>;
 
-function buildQuery(params: PerformerRecommendationsQuery, performerIds: number[] = [], eventIds: number[] = []): Record<string, any> {
+function buildQuery(params: PerformerRecommendationsQuery, performerIds: number[] = [], eventIds: number[] = [], page: number = params.page, perPage: number = params.per_page): Record<string, any> {
   const query: Record<string, any> = {
-    per_page: Math.min(params.per_page, 50),
-    page: params.page,
+    per_page: Math.min(perPage, 50),
+    page: page,
   };
   
   // Add venue location - API expects flat format
@@ -44,6 +57,8 @@ function buildQuery(params: PerformerRecommendationsQuery, performerIds: number[
     query["datetime_utc.lte"] = params.end_utc;
   }
   
+  Object.assign(query, buildTaxonomyFilter(params.taxonomy));
+  
   // Add performer and event IDs if provided
   if (performerIds.length > 0) {
     query["performer_ids"] = performerIds.join(',');
@@ -70,11 +85,23 @@ const inputSchema = {
   venue_city: z.string().optional().describe('City name where the venue is located. Use full city name, e.g., "New York" or "Los Angeles".'),
   venue_state: z.string().optional().describe('State abbreviation where the venue is located, e.g., "CA" for California or "NY" for New York.'),
   venue_country: z.string().optional().describe('Country code where the venue is located, e.g., "US" for United States or "CA" for Canada.'),
-  start_utc: z.string().optional().describe('Start date filter in ISO8601 UTC format (YYYY-MM-DD). Use for date ranges like "next month" or "this weekend".'),
+  start_utc: z.string().optional().describe('Start date filter in ISO8601 UTC format (YYYY-MM-DD). Use when the user gave exact dates; for phrases like "next month" or "this weekend" use when instead.'),
   end_utc: z.string().optional().describe('End date filter in ISO8601 UTC format (YYYY-MM-DD). Use with start_utc to define date ranges.'),
+  when: z.string().optional().describe('Natural-language date range, e.g. "tonight", "this weekend", "next friday", "next month", "between Oct 3 and Oct 10" or "the next 12 weeks". Resolved on the server in the user\'s timezone and used instead of start_utc/end_utc; the resolved range is returned as resolved_dates. Prefer it over computing dates yourself.'),
+  timezone: z.string().optional().describe('The user\'s IANA timezone for resolving when, e.g. "America/Los_Angeles". Defaults to the server\'s timezone.'),
+  taxonomy: z.string().optional().describe('Category name or id to filter by, e.g., "concert", "comedy", "sports" or "nba". Parent categories include their subcategories. Use list_categories to find valid names.'),
   per_page: z.number().min(1).max(50).default(10).describe('Number of results to return per page (1-50). Default is 10.'),
-  page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1.'),
-  format: z.enum(['structured', 'json']).default('structured').describe('Output format. Use "structured" for readable format (default) or "json" for raw API response. Only use "json" if explicitly requested.'),
+  page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1. Prefer cursor when continuing from a previous result.'),
+  cursor: z.string().optional().describe('Opaque next_cursor value from a previous find_performer_recommendations result with the same search parameters. Resumes exactly where that result stopped.'),
+  fetch_all: z.boolean().default(false).describe('Fetch all matching results instead of a single page, up to a hard cap of 500 results. Only use when the user needs the complete list.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  performers: z.array(CondensedPerformerSchema),
+  ...PageInfoShape,
+  resolved_dates: ResolvedDatesSchema.optional(),
 };
 
 /**
@@ -90,9 +117,10 @@ export const findPerformerRecommendationsTool = {
   name: 'find_performer_recommendations',
   description: 'Get personalized performer recommendations based on performers, events, or location. This tool first searches for performers and/or events based on the queries, then uses the IDs to find similar performers. Use location parameters (geoip, lat/lon, postal_code) for nearby performers.',
   inputSchema: inputSchema,
+  outputSchema: outputSchema,
   handler: async (args: any, extra: any) => {
     try {
-      const params = PerformerRecommendationsQuerySchema.parse(args);
+      const { params, resolvedDates } = applyWhen(PerformerRecommendationsQuerySchema.parse(args));
       const performerIds: number[] = [];
       const eventIds: number[] = [];
       
@@ -104,7 +132,7 @@ export const findPerformerRecommendationsTool = {
           
           // Add performer lookup promise if performer_q is provided
           if (params.performer_q) {
-            const performerPromise = searchPerformers(params.performer_q, params.per_page, 1).then(performers => {
+            const performerPromise = searchPerformers(params.performer_q, params.per_page, 1, { cache: params.cache }).then(performers => {
               if (performers.length > 0) {
                 // Get unique performer IDs
                 const uniqueIds = [...new Set(performers.map((p: any) => p.id).filter(Boolean))] as number[];
@@ -138,7 +166,7 @@ export const findPerformerRecommendationsTool = {
               additionalParams["datetime_utc.lte"] = params.end_utc;
             }
             
-            const eventPromise = searchEvents(params.event_q, params.per_page, additionalParams).then(events => {
+            const eventPromise = searchEvents(params.event_q, params.per_page, additionalParams, { cache: params.cache }).then(events => {
               if (events.length > 0) {
                 // Get unique event IDs
                 const uniqueIds = [...new Set(events.map((e: any) => e.id).filter(Boolean))] as number[];
@@ -156,35 +184,31 @@ export const findPerformerRecommendationsTool = {
         }
       }
       
-      // Build query with found IDs
-      const query = buildQuery(params, performerIds, eventIds);
-      
-      // For performer recommendations, we need to use the correct endpoint
-      // The recommendations endpoint for performers is still RECOMMENDATIONS_ENDPOINT
-      // but with different query parameters
-      const data = await fetchJson(`${RECOMMENDATIONS_ENDPOINT}/performers`, query);
-      
-      if (params.format === 'json') {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(data, null, 2)
-            }
-          ]
-        };
-      }
+      const result = await fetchRequestedPages<any>(params, async (state: CursorState, pageSize: number) => {
+        const perPage = state.per_page ?? pageSize;
+        
+        // Build query with found IDs
+        const query = buildQuery(params, performerIds, eventIds, state.page, perPage);
+        
+        // For performer recommendations, we need to use the correct endpoint
+        // The recommendations endpoint for performers is still RECOMMENDATIONS_ENDPOINT
+        // but with different query parameters
+        const pageData = await fetchJson(`${RECOMMENDATIONS_ENDPOINT}/performers`, query, { cache: params.cache });
+        const items = Array.isArray(pageData) ? pageData : (pageData.recommendations || []);
+        return pageFromMeta(items, Array.isArray(pageData) ? undefined : pageData.meta, state, perPage);
+      });
+      const data = { recommendations: result.items, meta: result.meta };
       
       // Extract performers from recommendations
-      const recommendationsRaw = Array.isArray(data) ? data : (data.recommendations || []);
-      const results: Performer[] = [];
+      const recommendationsRaw = data.recommendations;
+      const results: CondensedPerformer[] = [];
       
       for (const item of recommendationsRaw) {
         try {
           // Each recommendation has a performer object
           if (item.performer) {
-            const performer = PerformerSchema.parse(item.performer);
-            results.push(performer);
+            // Condense the performer data, keeping genre names for the markdown list
+            results.push(condensePerformerData(item.performer));
           }
         } catch (error) {
           // Skip invalid performers
@@ -192,42 +216,22 @@ export const findPerformerRecommendationsTool = {
         }
       }
             
-      // Limit results to per_page
-      const limitedResults = results.slice(0, params.per_page);
+      // Limit results to per_page unless every page was requested
+      const limitedResults = params.fetch_all ? results : results.slice(0, params.per_page);
       
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(limitedResults, null, 2)
-          }
-        ]
-      };
+      const output = { performers: limitedResults, ...toPageInfo(result), ...resolvedOutput(resolvedDates) };
+      return toolResult(output, {
+        format: params.format,
+        raw: { ...data, ...toPageInfo(result) },
+        markdown: performerListMarkdown,
+        resources: ({ performers }) => performers.map(performerEntity),
+      });
     } catch (error) {
       console.error('Error in find_performer_recommendations handler:', error);
-      
-      // Provide more detailed error information
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      const errorDetails = {
-        error: 'API_REQUEST_FAILED',
-        message: errorMessage,
-        timestamp: new Date().toISOString(),
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch performer recommendations',
         endpoint: RECOMMENDATIONS_ENDPOINT,
-        args: args
-      };
-      
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              error: 'Failed to fetch performer recommendations',
-              details: errorDetails,
-              suggestion: 'Please check your parameters and try again. Common issues include invalid performer IDs, event IDs, or location parameters.'
-            }, null, 2)
-          }
-        ]
-      };
+      });
     }
   },
 };
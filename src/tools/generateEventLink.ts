@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { AxiosError } from 'axios';
+import { fetchJson, EVENTS_ENDPOINT } from '../shared/core.js';
+import { ToolError, toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { eventEntity } from '../shared/resources.js';
+import { eventLinkMarkdown } from '../shared/markdown.js';
+import { buildTrackedUrl, isSeatGeekUrl, stripTrackingParams } from '../shared/links.js';
+
+const EventLinkQuerySchema = z.object({
+  event_id: z.number().nullable().optional(),
+  url: z.string().nullable().optional(),
+  quantity: z.number().int().min(1).max(20).nullable().optional(),
+  section: z.string().nullable().optional(),
+  utm_source: z.string().nullable().optional(),
+  utm_medium: z.string().nullable().optional(),
+  utm_campaign: z.string().nullable().optional(),
+  utm_content: z.string().nullable().optional(),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured'),
+});
+
+const inputSchema = {
+  event_id: z.number().optional().describe('The unique identifier for the event to link to. Provide either event_id or url.'),
+  url: z.string().optional().describe('An existing SeatGeek event url, e.g., the url field of a previous event result. Provide either event_id or url.'),
+  quantity: z.number().int().min(1).max(20).optional().describe('Number of tickets the user wants, used to pre-filter listings on the purchase page.'),
+  section: z.string().optional().describe('Seating section hint, e.g., a section name from retrieve_event_venue_information.'),
+  utm_source: z.string().optional().describe('UTM source tag. Defaults to the server configuration.'),
+  utm_medium: z.string().optional().describe('UTM medium tag. Defaults to the server configuration.'),
+  utm_campaign: z.string().optional().describe('UTM campaign tag. Defaults to the server configuration.'),
+  utm_content: z.string().optional().describe('UTM content tag, e.g., to distinguish where in a conversation the link was shared.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  event_id: z.number().nullable(),
+  title: z.string().nullable(),
+  url: z.string(),
+};
+
+/**
+ * Generate a purchase/share link for an event.
+ *
+ * If an event id is given, calls GET /events/{id} to get the canonical event url.
+ * Otherwise uses the provided SeatGeek url without any tracking parameters it carries.
+ *
+ * Returns the url with partner aid/rid tracking parameters, UTM tags and optional
+ * quantity and section hints.
+ */
+export const generateEventLinkTool = {
+  name: 'generate_event_link',
+  description: 'Generate a purchase/share link for an event from its id or its SeatGeek url. The link carries partner tracking and UTM parameters, and optional ticket quantity and section hints. Use this whenever sharing a link the user can buy tickets from.',
+  inputSchema: inputSchema,
+  outputSchema: outputSchema,
+  handler: async (args: any, extra: any) => {
+    try {
+      const params = EventLinkQuerySchema.parse(args);
+
+      let baseUrl: string | null = null;
+      let event: any = null;
+      if (params.event_id) {
+        try {
+          event = await fetchJson(`${EVENTS_ENDPOINT}/${params.event_id}`, {}, { cache: params.cache });
+        } catch (error) {
+          if ((error as AxiosError).response?.status !== 404) {
+            throw error;
+          }
+        }
+        baseUrl = event?.url || null;
+      } else if (params.url && isSeatGeekUrl(params.url)) {
+        // Drop tracking from a previously shared link so it is not carried over
+        baseUrl = stripTrackingParams(params.url);
+      }
+
+      if (!baseUrl) {
+        if (params.event_id) {
+          throw new ToolError('NOT_FOUND', `No event found with id ${params.event_id}`);
+        }
+        throw new ToolError('VALIDATION_ERROR', params.url ? `"${params.url}" is not a SeatGeek url` : 'Either event_id or url is required', {
+          fields: [params.url
+            ? { field: 'url', message: 'Must be a seatgeek.com url' }
+            : { field: 'event_id', message: 'Provide event_id or url' }],
+        });
+      }
+
+      const link = buildTrackedUrl(baseUrl, {
+        quantity: params.quantity,
+        section: params.section,
+        utm_source: params.utm_source,
+        utm_medium: params.utm_medium,
+        utm_campaign: params.utm_campaign,
+        utm_content: params.utm_content,
+      });
+
+      const output = {
+        event_id: event?.id ?? params.event_id ?? null,
+        title: event?.title ?? null,
+        url: link,
+      };
+      return toolResult(output, {
+        format: params.format,
+        raw: { url: link, event: event },
+        markdown: eventLinkMarkdown,
+        resources: ({ event_id, title }) => event_id !== null ? [eventEntity({ id: event_id, title })] : [],
+      });
+    } catch (error) {
+      console.error('Error in generate_event_link handler:', error);
+      return toolErrorResult(error, {
+        summary: 'Failed to generate event link',
+        endpoint: EVENTS_ENDPOINT,
+        suggestions: {
+          NOT_FOUND: 'Use find_events to look up the event, then call this tool with its id or url.',
+          VALIDATION_ERROR: 'Use find_events to look up the event, then call this tool with its id or url.',
+        },
+      });
+    }
+  },
+};
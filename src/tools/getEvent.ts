@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { CondensedEventSchema } from '../schemas/outputModels.js';
+import { AxiosError } from 'axios';
+import { fetchJson, EVENTS_ENDPOINT } from '../shared/core.js';
+import { ToolError, toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { eventEntity, performerEntity, venueEntity } from '../shared/resources.js';
+import { eventMarkdown } from '../shared/markdown.js';
+import { condenseEventData } from '../shared/helpers.js';
+
+const EventQuerySchema = z.object({
+  event_id: z.number().int().positive().nullable().optional(),
+  event_slug: z.string().nullable().optional(),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown', 'ics']).default('structured'),
+});
+
+const inputSchema = {
+  event_id: z.number().int().positive().optional().describe('The unique identifier for the event. This ID is obtained from find_events or another event result. Provide either event_id or event_slug.'),
+  event_slug: z.string().optional().describe('The event slug or SeatGeek event url, e.g., "phoebe-bridgers-tickets/2026-03-14-los-angeles-hollywood-bowl/concert/17382910" or the full https://seatgeek.com/... link the user pasted. Provide either event_id or event_slug.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown', 'ics']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, "ics" for an iCalendar file the user can add to their calendar, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = CondensedEventSchema.shape;
+
+/**
+ * The event id in an event slug or url. SeatGeek event slugs end in the event
+ * id, e.g. "taylor-swift-tickets/2026-05-01-chicago-il-soldier-field/concert/17382910".
+ */
+function eventIdFromSlug(slug: string): number {
+  const path = slug.trim().replace(/[?#].*$/, '').replace(/\/+$/, '');
+  const id = Number(path.slice(path.lastIndexOf('/') + 1));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ToolError('VALIDATION_ERROR', `Invalid event_slug "${slug}"`, {
+      fields: [{ field: 'event_slug', message: 'Use an event slug or SeatGeek event url ending in the event id' }],
+    });
+  }
+  return id;
+}
+
+/**
+ * Get a single event by id or slug.
+ *
+ * Resolves a slug to the id it ends in, then calls GET /events/{id} to re-fetch the latest event details, e.g. to check for
+ * status or time changes on an event found earlier with find_events.
+ *
+ * Returns the condensed event.
+ */
+export const getEventTool = {
+  name: 'get_event',
+  description: 'Get the latest details for a single event by its id or slug, including status, date and time, venue and performers. Use this to re-check an event found earlier with find_events, or to look up a SeatGeek event link the user shared.',
+  inputSchema: inputSchema,
+  outputSchema: outputSchema,
+  handler: async (args: any, extra: any) => {
+    try {
+      const params = EventQuerySchema.parse(args);
+      if (!params.event_id && !params.event_slug) {
+        throw new ToolError('VALIDATION_ERROR', 'Either event_id or event_slug is required', {
+          fields: [{ field: 'event_id', message: 'Provide event_id or event_slug' }],
+        });
+      }
+      const eventId = params.event_id || eventIdFromSlug(params.event_slug!);
+
+      let data: any;
+      try {
+        data = await fetchJson(`${EVENTS_ENDPOINT}/${eventId}`, {}, { cache: params.cache });
+      } catch (error) {
+        if ((error as AxiosError).response?.status !== 404) {
+          throw error;
+        }
+        data = null;
+      }
+
+      if (!data || !data.id) {
+        throw new ToolError('NOT_FOUND', `No event found with ${params.event_id ? `id ${eventId}` : `slug "${params.event_slug}"`}`);
+      }
+
+      return toolResult(condenseEventData(data), {
+        format: params.format,
+        raw: data,
+        markdown: eventMarkdown,
+        calendar: event => [event],
+        resources: event => [eventEntity(event), event.venue && venueEntity(event.venue), ...event.performers.map(performerEntity)],
+      });
+    } catch (error) {
+      console.error('Error in get_event handler:', error);
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch event',
+        endpoint: EVENTS_ENDPOINT,
+        suggestions: {
+          NOT_FOUND: 'The event may have been removed or the id may be wrong. Use find_events to search for the event again.',
+        },
+      });
+    }
+  },
+};
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { CondensedEventSchema, CondensedPerformerSchema } from '../schemas/outputModels.js';
+import { AxiosError } from 'axios';
+import { fetchJson, FetchOptions, EVENTS_ENDPOINT, PERFORMERS_ENDPOINT } from '../shared/core.js';
+import { ToolError, toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { eventEntity, performerEntity } from '../shared/resources.js';
+import { performerMarkdown } from '../shared/markdown.js';
+import { CondensedEvent, condenseEventData, condensePerformerData } from '../shared/helpers.js';
+
+const PerformerQuerySchema = z.object({
+  performer_id: z.number().nullable().optional(),
+  performer_slug: z.string().nullable().optional(),
+  upcoming_events: z.number().int().min(0).max(50).default(5),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured'),
+});
+
+const inputSchema = {
+  performer_id: z.number().optional().describe('The unique identifier for the performer. Provide either performer_id or performer_slug.'),
+  performer_slug: z.string().optional().describe('The performer slug, e.g., "taylor-swift". Provide either performer_id or performer_slug.'),
+  upcoming_events: z.number().int().min(0).max(50).default(5).describe('Number of the performer\'s next upcoming events to include (0-50). Default is 5.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  ...CondensedPerformerSchema.shape,
+  upcoming_events: z.array(CondensedEventSchema),
+};
+
+/**
+ * Fetch a performer by id (GET /performers/{id}) or by slug (GET /performers?slug=).
+ * Returns null when the performer does not exist.
+ */
+async function fetchPerformer(performerId?: number | null, performerSlug?: string | null, options: FetchOptions = {}): Promise<any | null> {
+  if (performerId) {
+    try {
+      return await fetchJson(`${PERFORMERS_ENDPOINT}/${performerId}`, {}, options);
+    } catch (error) {
+      if ((error as AxiosError).response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  if (performerSlug) {
+    const data = await fetchJson(PERFORMERS_ENDPOINT, { slug: performerSlug }, options);
+    return (data.performers || [])[0] || null;
+  }
+
+  return null;
+}
+
+/**
+ * Get a single performer by id or slug.
+ *
+ * Calls GET /performers/{id} or GET /performers?slug= to look up the performer.
+ * Then calls GET /events with the performer id to get their next upcoming events.
+ *
+ * Returns the condensed performer with their upcoming events.
+ */
+export const getPerformerTool = {
+  name: 'get_performer',
+  description: 'Get details for a single performer by id or slug, including genres, popularity and their next upcoming events. Use this when the performer is already known, e.g. from a previous event or recommendation result.',
+  inputSchema: inputSchema,
+  outputSchema: outputSchema,
+  handler: async (args: any, extra: any) => {
+    try {
+      const params = PerformerQuerySchema.parse(args);
+      if (!params.performer_id && !params.performer_slug) {
+        throw new ToolError('VALIDATION_ERROR', 'Either performer_id or performer_slug is required', {
+          fields: [{ field: 'performer_id', message: 'Provide performer_id or performer_slug' }],
+        });
+      }
+
+      const performer = await fetchPerformer(params.performer_id, params.performer_slug, { cache: params.cache });
+
+      if (!performer || !performer.id) {
+        throw new ToolError('NOT_FOUND', `No performer found with ${params.performer_id ? `id ${params.performer_id}` : `slug "${params.performer_slug}"`}`);
+      }
+
+      let eventsRaw: any[] = [];
+      if (params.upcoming_events > 0) {
+        const eventData = await fetchJson(EVENTS_ENDPOINT, {
+          "performers.id": performer.id,
+          sort: 'datetime_utc.asc',
+          per_page: params.upcoming_events,
+        }, { cache: params.cache });
+        eventsRaw = eventData.events || [];
+      }
+
+      const upcomingEvents: CondensedEvent[] = [];
+      for (const item of eventsRaw) {
+        try {
+          upcomingEvents.push(condenseEventData(item));
+        } catch (error) {
+          // Skip invalid events
+          console.warn('Skipping invalid event:', error);
+        }
+      }
+
+      const output = {
+        ...condensePerformerData(performer),
+        upcoming_events: upcomingEvents
+      };
+      return toolResult(output, {
+        format: params.format,
+        raw: { performer, events: eventsRaw },
+        markdown: performerMarkdown,
+        resources: ({ slug, name, upcoming_events }) => [performerEntity({ slug, name }), ...upcoming_events.map(eventEntity)],
+      });
+    } catch (error) {
+      console.error('Error in get_performer handler:', error);
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch performer',
+        endpoint: PERFORMERS_ENDPOINT,
+        suggestions: {
+          NOT_FOUND: 'Use find_events or find_performer_recommendations to look up the performer, then call this tool with the returned slug.',
+        },
+      });
+    }
+  },
+};
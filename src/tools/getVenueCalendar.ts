@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { CondensedEventSchema, ResolvedDatesSchema, FilteredOutSchema } from '../schemas/outputModels.js';
+import { fetchJson, FetchOptions, EVENTS_ENDPOINT, VENUES_ENDPOINT } from '../shared/core.js';
+import { ToolError, toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { applyWhen, resolvedOutput } from '../shared/dates.js';
+import { applyLocalWindow, filterByLocalTime, filterRawEvents, DAY_FILTERS, TIMES_OF_DAY } from '../shared/localFilters.js';
+import { eventEntity, venueEntity } from '../shared/resources.js';
+import { venueCalendarMarkdown } from '../shared/markdown.js';
+import { CondensedEvent, condenseEventData, getEventLocalDate } from '../shared/helpers.js';
+
+// Upstream page size and page cap used when walking the venue's events
+const CALENDAR_PAGE_SIZE = 50;
+const MAX_CALENDAR_PAGES = 10;
+
+// Venue calendar query schema
+const VenueCalendarQuerySchema = z.object({
+  venue_id: z.number().nullable().optional(),
+  venue_slug: z.string().nullable().optional(),
+  start_utc: z.string().nullable().optional(),
+  end_utc: z.string().nullable().optional(),
+  when: z.string().nullable().optional(),
+  timezone: z.string().nullable().optional(),
+  start_local: z.string().nullable().optional(),
+  end_local: z.string().nullable().optional(),
+  days_of_week: z.array(z.enum(DAY_FILTERS)).nullable().optional(),
+  times_of_day: z.array(z.enum(TIMES_OF_DAY)).nullable().optional(),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured'),
+});
+
+type VenueCalendarQuery = z.infer<typeof VenueCalendarQuerySchema>;
+
+function buildQuery(params: VenueCalendarQuery, venueId: number, page: number): Record<string, any> {
+  const query: Record<string, any> = {
+    "venue.id": venueId,
+    sort: 'datetime_utc.asc',
+    per_page: CALENDAR_PAGE_SIZE,
+    page: page,
+  };
+
+  if (params.start_utc) {
+    query["datetime_utc.gte"] = params.start_utc;
+  }
+
+  if (params.end_utc) {
+    query["datetime_utc.lte"] = params.end_utc;
+  }
+
+  return query;
+}
+
+/**
+ * Resolve a venue slug to its id using GET /venues.
+ */
+async function resolveVenueId(slug: string, options: FetchOptions = {}): Promise<number | null> {
+  const data = await fetchJson(VENUES_ENDPOINT, { q: slug.replace(/-/g, ' '), per_page: 10 }, options);
+  const venues = data.venues || [];
+  const match = venues.find((venue: any) => venue.slug === slug);
+  return match ? match.id : null;
+}
+
+const inputSchema = {
+  venue_id: z.number().optional().describe('The unique identifier for the venue, obtained from search_venues or from an event\'s venue. Provide either venue_id or venue_slug.'),
+  venue_slug: z.string().optional().describe('The venue slug, e.g., "madison-square-garden". Provide either venue_id or venue_slug.'),
+  start_utc: z.string().optional().describe('Start date filter in ISO8601 UTC format (YYYY-MM-DD). Use when the user gave exact dates; for phrases like "next month" or "this weekend" use when instead.'),
+  end_utc: z.string().optional().describe('End date filter in ISO8601 UTC format (YYYY-MM-DD). Use with start_utc to define date ranges.'),
+  when: z.string().optional().describe('Natural-language date range, e.g. "tonight", "this weekend", "next friday", "next month", "between Oct 3 and Oct 10" or "the next 12 weeks". Resolved on the server in the user\'s timezone and used instead of start_utc/end_utc; the resolved range is returned as resolved_dates. Prefer it over computing dates yourself.'),
+  timezone: z.string().optional().describe('The user\'s IANA timezone for resolving when, e.g. "America/Los_Angeles". Defaults to the server\'s timezone.'),
+  start_local: z.string().optional().describe('Start of the range in each venue\'s local time (YYYY-MM-DD or YYYY-MM-DDTHH:MM). Use for "shows on Friday in LA" so late shows that fall on Saturday in UTC are still found.'),
+  end_local: z.string().optional().describe('End of the range in each venue\'s local time (YYYY-MM-DD or YYYY-MM-DDTHH:MM). A bare date includes the whole day.'),
+  days_of_week: z.array(z.enum(DAY_FILTERS)).optional().describe('Only events starting on these local days, e.g. ["friday", "saturday"], or "weekday" (Monday to Friday) and "weekend" (Saturday and Sunday).'),
+  times_of_day: z.array(z.enum(TIMES_OF_DAY)).optional().describe('Only events starting at these local times: "morning" (5am-noon), "afternoon" (noon-5pm, e.g. matinees), "evening" (5-10pm) or "late_night" (10pm-5am). Use ["evening"] with days_of_week ["weekend"] for "weekend evenings only".'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  venue_id: z.number(),
+  venue_name: z.string().nullable(),
+  timezone: z.string().nullable(),
+  start_utc: z.string().nullable(),
+  end_utc: z.string().nullable(),
+  resolved_dates: ResolvedDatesSchema.optional(),
+  filtered_out: FilteredOutSchema,
+  total_events: z.number(),
+  truncated: z.boolean().describe('True when the range had more events than could be fetched'),
+  days: z.array(z.object({
+    date: z.string().describe('Local date (YYYY-MM-DD) in the venue timezone, or TBD'),
+    events: z.array(CondensedEventSchema),
+  })),
+};
+
+/**
+ * Get every event happening at one venue over a date range.
+ *
+ * If only a venue slug is given, first resolves it to a venue id with GET /venues.
+ * Then pages through GET /events with venue.id until the date range is covered.
+ *
+ * Returns the events grouped by local date in the venue's timezone.
+ */
+export const getVenueCalendarTool = {
+  name: 'get_venue_calendar',
+  description: 'Get everything happening at a single venue over a date range, grouped by local date in the venue\'s timezone. Accepts a venue id (from search_venues or an event\'s venue) or a venue slug. Prefer this over find_events when the user asks about a specific venue.',
+  inputSchema: inputSchema,
+  outputSchema: outputSchema,
+  handler: async (args: any, extra: any) => {
+    try {
+      const { params: datedParams, resolvedDates } = applyWhen(VenueCalendarQuerySchema.parse(args));
+      const params = applyLocalWindow(datedParams);
+
+      let venueId = params.venue_id ?? null;
+      if (venueId === null && params.venue_slug) {
+        venueId = await resolveVenueId(params.venue_slug, { cache: params.cache });
+      }
+
+      if (venueId === null) {
+        if (!params.venue_slug) {
+          throw new ToolError('VALIDATION_ERROR', 'Either venue_id or venue_slug is required', {
+            fields: [{ field: 'venue_id', message: 'Provide venue_id or venue_slug' }],
+          });
+        }
+        throw new ToolError('NOT_FOUND', `No venue found with slug "${params.venue_slug}"`);
+      }
+
+      // Page through the venue's events until the range is covered
+      const eventsRaw: any[] = [];
+      let truncated = false;
+      for (let page = 1; page <= MAX_CALENDAR_PAGES; page++) {
+        const data = await fetchJson(EVENTS_ENDPOINT, buildQuery(params, venueId, page), { cache: params.cache });
+        const events = data.events || [];
+        eventsRaw.push(...events);
+
+        const total = data.meta?.total ?? 0;
+        if (events.length < CALENDAR_PAGE_SIZE || page * CALENDAR_PAGE_SIZE >= total) {
+          break;
+        }
+        if (page === MAX_CALENDAR_PAGES) {
+          truncated = true;
+        }
+      }
+
+      const results: CondensedEvent[] = [];
+      for (const item of eventsRaw) {
+        try {
+          // Condense the event data
+          const condensedEvent = condenseEventData(item);
+          results.push(condensedEvent);
+        } catch (error) {
+          // Skip invalid events
+          console.warn('Skipping invalid event:', error);
+        }
+      }
+
+      const localFiltered = filterByLocalTime(results, params);
+      const { events: localResults, ...localSummary } = localFiltered;
+
+      // Group events by local date, keeping upstream (chronological) order
+      const days = new Map<string, CondensedEvent[]>();
+      for (const event of localResults) {
+        const date = getEventLocalDate(event) || 'TBD';
+        if (!days.has(date)) {
+          days.set(date, []);
+        }
+        days.get(date)!.push(event);
+      }
+
+      const venue = results.find(event => event.venue)?.venue || null;
+
+      const output = {
+        venue_id: venueId,
+        venue_name: venue?.name ?? null,
+        timezone: venue?.timezone ?? null,
+        start_utc: params.start_utc ?? null,
+        end_utc: params.end_utc ?? null,
+        ...resolvedOutput(resolvedDates),
+        ...localSummary,
+        total_events: localResults.length,
+        truncated: truncated,
+        days: [...days.entries()].map(([date, events]) => ({ date, events })),
+      };
+      return toolResult(output, {
+        format: params.format,
+        raw: { events: filterRawEvents(eventsRaw, localFiltered) },
+        markdown: venueCalendarMarkdown,
+        resources: ({ venue_id, venue_name, days }) => [
+          venueEntity({ id: venue_id, name: venue_name }),
+          ...days.flatMap(day => day.events.map(eventEntity)),
+        ],
+      });
+    } catch (error) {
+      console.error('Error in get_venue_calendar handler:', error);
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch venue calendar',
+        endpoint: EVENTS_ENDPOINT,
+        suggestions: {
+          NOT_FOUND: 'Use search_venues to look up the venue id, then call this tool with venue_id.',
+        },
+      });
+    }
+  },
+};
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { fetchJson, TAXONOMIES_ENDPOINT } from '../shared/core.js';
+import { toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { categoriesMarkdown } from '../shared/markdown.js';
+
+const CategoriesQuerySchema = z.object({
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured'),
+});
+
+const inputSchema = {
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+interface CategoryNode {
+  id: number;
+  name: string | null;
+  children: CategoryNode[];
+}
+
+const CategoryNodeSchema: z.ZodType<CategoryNode> = z.lazy(() => z.object({
+  id: z.number(),
+  name: z.string().nullable(),
+  children: z.array(CategoryNodeSchema),
+}));
+
+const outputSchema = {
+  categories: z.array(CategoryNodeSchema).describe('Top-level categories, each with its child categories'),
+};
+
+/**
+ * Arrange the flat upstream taxonomy list into a tree using parent_id.
+ */
+function buildCategoryTree(taxonomies: any[]): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>();
+  for (const taxonomy of taxonomies) {
+    nodes.set(taxonomy.id, { id: taxonomy.id, name: taxonomy.name ?? null, children: [] });
+  }
+
+  const roots: CategoryNode[] = [];
+  for (const taxonomy of taxonomies) {
+    const node = nodes.get(taxonomy.id)!;
+    const parent = taxonomy.parent_id !== null && taxonomy.parent_id !== undefined
+      ? nodes.get(Number(taxonomy.parent_id))
+      : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * List event categories.
+ *
+ * Calls GET /taxonomies and arranges the categories into a parent/child tree.
+ *
+ * Returns the taxonomy tree so category names can be used with the taxonomy filter.
+ */
+export const listCategoriesTool = {
+  name: 'list_categories',
+  description: 'List the event category tree (e.g., sports > nba, concert, comedy, theater). Use this to map the user\'s words like "comedy shows" or "NBA games" to a real category name for the taxonomy filter on find_events and the recommendation tools.',
+  inputSchema: inputSchema,
+  outputSchema: outputSchema,
+  handler: async (args: any, extra: any) => {
+    try {
+      const params = CategoriesQuerySchema.parse(args);
+      const data = await fetchJson(TAXONOMIES_ENDPOINT, { per_page: 500 }, { cache: params.cache });
+
+      const output = { categories: buildCategoryTree(data.taxonomies || []) };
+      return toolResult(output, { format: params.format, raw: data, markdown: categoriesMarkdown });
+    } catch (error) {
+      console.error('Error in list_categories handler:', error);
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch categories',
+        endpoint: TAXONOMIES_ENDPOINT,
+      });
+    }
+  },
+};
@@ -1,11 +1,15 @@
 import { z } from 'zod';
 import { fetchJson, EVENTS_ENDPOINT, SECTION_INFO_ENDPOINT } from '../shared/core.js';
+import { toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { sectionsMarkdown } from '../shared/markdown.js';
 import { searchEvents } from '../shared/endpoints.js';
 
 const EventVenueInformationQuerySchema = z.object({
   event_id: z.number().describe('The unique identifier for the event to retrieve venue information for. This ID is obtained from the event.'),
   page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1.'),
-  format: z.enum(['structured', 'json']).default('structured').describe('Output format. Use "structured" for readable format (default) or "json" for raw API response. Only use "json" if explicitly requested.'),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
 });
 
 type EventVenueInformationQuery = z.infer<typeof EventVenueInformationQuerySchema>;
@@ -17,7 +21,12 @@ const SectionInfoSchema = z.object({
 const inputSchema = {
   event_id: z.number().describe('The unique identifier for the event to retrieve venue information for. This ID is obtained from the event.'),
   page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1.'),
-  format: z.enum(['structured', 'json']).default('structured').describe('Output format. Use "structured" for readable format (default) or "json" for raw API response. Only use "json" if explicitly requested.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  sections: z.record(z.array(z.string())).nullable().describe('Row names for each section name'),
 };
 
 /**
@@ -31,72 +40,30 @@ export const retrieveEventVenueInformationTool = {
   name: 'retrieve_event_venue_information',
   description: 'Get detailed seating information including sections and rows for a specific event. This tool first searches for the event using the provided query, then retrieves detailed venue layout information. Useful for understanding venue seating options and making ticket purchasing decisions.',
   inputSchema: inputSchema,
+  outputSchema: outputSchema,
   handler: async (args: any, extra: any) => {
     try {
       const params = EventVenueInformationQuerySchema.parse(args);
       
       // Call the section info endpoint with the event ID
-      const data = await fetchJson(`${SECTION_INFO_ENDPOINT}/${params.event_id}`, {});
-      
-      if (params.format === 'json') {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(data, null, 2)
-            }
-          ]
-        };
-      }
+      const data = await fetchJson(`${SECTION_INFO_ENDPOINT}/${params.event_id}`, {}, { cache: params.cache });
       
-      try {
-        const sectionInfo = SectionInfoSchema.parse(data);
-        
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(sectionInfo, null, 2)
-            }
-          ]
-        };
-      } catch (error) {
+      const parsed = SectionInfoSchema.safeParse(data);
+      if (!parsed.success) {
         // Return raw data if parsing fails
-        console.warn('Failed to parse section info:', error);
-        
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(data, null, 2)
-            }
-          ]
-        };
+        console.warn('Failed to parse section info:', parsed.error);
       }
+      const output = parsed.success ? parsed.data : { sections: null };
+      return toolResult(output, { format: parsed.success ? params.format : 'json', raw: data, markdown: sectionsMarkdown });
     } catch (error) {
       console.error('Error in retrieve_event_venue_information handler:', error);
-      
-      // Provide more detailed error information
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      const errorDetails = {
-        error: 'API_REQUEST_FAILED',
-        message: errorMessage,
-        timestamp: new Date().toISOString(),
-        args: args
-      };
-      
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({
-              error: 'Failed to fetch event venue information',
-              details: errorDetails,
-              suggestion: 'Please check your parameters and try again. Common issues include invalid search terms or the event not having section information available.'
-            }, null, 2)
-          }
-        ]
-      };
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch event venue information',
+        endpoint: SECTION_INFO_ENDPOINT,
+        suggestions: {
+          NOT_FOUND: 'The event may not exist or may not have section information. Use find_events to get a current event id.',
+        },
+      });
     }
   },
 };
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { CondensedVenueSchema, PageInfoShape } from '../schemas/outputModels.js';
+import { fetchJson, VENUES_ENDPOINT } from '../shared/core.js';
+import { toolErrorResult } from '../shared/errors.js';
+import { toolResult } from '../shared/results.js';
+import { venueEntity } from '../shared/resources.js';
+import { venueListMarkdown } from '../shared/markdown.js';
+import { CondensedVenue, condenseVenueData } from '../shared/helpers.js';
+import { CursorState, pageFromMeta, toPageInfo, fetchRequestedPages } from '../shared/pagination.js';
+
+// Venues query schema
+const VenuesQuerySchema = z.object({
+  q: z.string().nullable().optional(),
+  city: z.string().nullable().optional(),
+  state: z.string().nullable().optional(),
+  country: z.string().nullable().optional(),
+  postal_code: z.string().nullable().optional(),
+  lat: z.number().nullable().optional(),
+  lon: z.number().nullable().optional(),
+  range: z.string().nullable().optional(),
+  per_page: z.number().min(1).max(50).default(10),
+  page: z.number().min(1).default(1),
+  cursor: z.string().nullable().optional(),
+  fetch_all: z.boolean().default(false),
+  cache: z.enum(['default', 'bypass']).default('default'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured'),
+});
+
+type VenuesQuery = z.infer<typeof VenuesQuerySchema>;
+
+function buildQuery(params: VenuesQuery, page: number = params.page, perPage: number = params.per_page): Record<string, any> {
+  const query: Record<string, any> = {
+    q: params.q,
+    city: params.city,
+    state: params.state,
+    country: params.country,
+    postal_code: params.postal_code,
+    lat: params.lat,
+    lon: params.lon,
+    range: params.range,
+    per_page: Math.min(perPage, 50),
+    page: page,
+  };
+
+  // Drop null/undefined values to avoid noisy query strings
+  const filteredQuery: Record<string, any> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== null && value !== undefined && value !== '') {
+      filteredQuery[key] = value;
+    }
+  }
+
+  return filteredQuery;
+}
+
+const inputSchema = {
+  q: z.string().optional().describe('Free-text search term matched against venue names, e.g., "Ryman" or "Madison Square Garden".'),
+  city: z.string().optional().describe('City name where the venue is located. Use full city name, e.g., "Austin" or "Los Angeles".'),
+  state: z.string().optional().describe('State abbreviation where the venue is located, e.g., "TX" for Texas or "NY" for New York.'),
+  country: z.string().optional().describe('Country code where the venue is located, e.g., "US" for United States or "CA" for Canada.'),
+  postal_code: z.string().optional().describe('Postal code to search venues near. Use with range to control the search radius.'),
+  lat: z.number().optional().describe('Latitude coordinate to search venues near. Use with lon and optionally range.'),
+  lon: z.number().optional().describe('Longitude coordinate to search venues near. Use with lat and optionally range.'),
+  range: z.string().optional().describe('Search radius around lat/lon or postal_code (e.g., "10mi", "25km").'),
+  per_page: z.number().min(1).max(50).default(10).describe('Number of results to return per page (1-50). Default is 10.'),
+  page: z.number().min(1).default(1).describe('Page number for pagination. Default is 1. Prefer cursor when continuing from a previous result.'),
+  cursor: z.string().optional().describe('Opaque next_cursor value from a previous search_venues result with the same search parameters. Resumes exactly where that result stopped.'),
+  fetch_all: z.boolean().default(false).describe('Fetch all matching results instead of a single page, up to a hard cap of 500 results. Only use when the user needs the complete list.'),
+  cache: z.enum(['default', 'bypass']).default('default').describe('Response cache mode. Use "bypass" to force fresh data from SeatGeek, e.g., when the user asks to refresh or re-check the latest status or prices.'),
+  format: z.enum(['structured', 'json', 'markdown']).default('structured').describe('Output format. Use "structured" for readable format (default), "markdown" for compact tables and lists to show in chat, or "json" for raw API response. Only use "json" if explicitly requested.'),
+};
+
+const outputSchema = {
+  venues: z.array(CondensedVenueSchema),
+  ...PageInfoShape,
+};
+
+/**
+ * Search venues by name or location.
+ *
+ * Calls GET /venues with the free-text q parameter and/or the city, state, country,
+ * postal_code or lat/lon/range location filters.
+ *
+ * Returns a list of venues including venue id, capacity, timezone and coordinates.
+ */
+export const searchVenuesTool = {
+  name: 'search_venues',
+  description: 'Search for venues by name or location (city, state, country, postal code, or coordinates with a radius). Returns venue details including the venue id, capacity, timezone and coordinates. Use the venue id for follow-up event searches at a specific venue.',
+  inputSchema: inputSchema,
+  outputSchema: outputSchema,
+  handler: async (args: any, extra: any) => {
+    try {
+      const params = VenuesQuerySchema.parse(args);
+      const result = await fetchRequestedPages<any>(params, async (state: CursorState, pageSize: number) => {
+        const perPage = state.per_page ?? pageSize;
+        const pageData = await fetchJson(VENUES_ENDPOINT, buildQuery(params, state.page, perPage), { cache: params.cache });
+        return pageFromMeta(pageData.venues || [], pageData.meta, state, perPage);
+      });
+      const data = { venues: result.items, meta: result.meta };
+
+      const venuesRaw = data.venues;
+      const results: CondensedVenue[] = [];
+
+      for (const item of venuesRaw) {
+        try {
+          // Condense the venue data
+          const condensedVenue = condenseVenueData(item);
+          results.push(condensedVenue);
+        } catch (error) {
+          // Skip invalid venues
+          console.warn('Skipping invalid venue:', error);
+        }
+      }
+
+      const output = { venues: results, ...toPageInfo(result) };
+      return toolResult(output, {
+        format: params.format,
+        raw: { ...data, ...toPageInfo(result) },
+        markdown: venueListMarkdown,
+        resources: ({ venues }) => venues.map(venueEntity),
+      });
+    } catch (error) {
+      console.error('Error in search_venues handler:', error);
+      return toolErrorResult(error, {
+        summary: 'Failed to fetch venues',
+        endpoint: VENUES_ENDPOINT,
+      });
+    }
+  },
+};
@@ -0,0 +1,820 @@
+#!/usr/bin/env node
+
+/**
+ * In-process fake of the SeatGeek API for tests and local demos.
+ *
+ * Serves /events, /performers, /venues, /taxonomies, /events/section_info/{id}
+ * and /recommendations[/performers] from a seeded synthetic dataset, so the same
+ * seed always produces the same events. Faults (429s, 5xx and timeouts) can be
+ * injected to exercise the retry logic in fetchJson, and responses delayed to
+ * hold requests in flight.
+ *
+ * In process:
+ *   const fake = createFakeSeatGeek({ seed: 7 });
+ *   const baseUrl = await fake.start();   // e.g. http://127.0.0.1:53211/2
+ *   process.env.SEATGEEK_API_BASE = baseUrl;
+ *   fake.inject({ status: 429, retryAfter: 1 });
+ *   ...
+ *   await fake.stop();
+ *
+ * Standalone, for demos:
+ *   node test/fake-seatgeek.js --port 8090 --seed 7 --rate-429 0.1
+ */
+
+import http from 'http';
+import { pathToFileURL } from 'url';
+
+const DEFAULT_SEED = 42;
+const DEFAULT_PER_PAGE = 10;
+const MAX_PER_PAGE = 5000;
+const DEFAULT_RANGE = '30mi';
+const DEFAULT_HANG_MS = 60000;
+
+const CITIES = [
+  { city: 'New York', state: 'NY', country: 'US', postal_code: '10001', lat: 40.7505, lon: -73.9934, timezone: 'America/New_York', utc_offset: -5 },
+  { city: 'Brooklyn', state: 'NY', country: 'US', postal_code: '11217', lat: 40.6826, lon: -73.9754, timezone: 'America/New_York', utc_offset: -5 },
+  { city: 'Boston', state: 'MA', country: 'US', postal_code: '02114', lat: 42.3662, lon: -71.0621, timezone: 'America/New_York', utc_offset: -5 },
+  { city: 'Chicago', state: 'IL', country: 'US', postal_code: '60612', lat: 41.8807, lon: -87.6742, timezone: 'America/Chicago', utc_offset: -6 },
+  { city: 'Austin', state: 'TX', country: 'US', postal_code: '78701', lat: 30.2672, lon: -97.7431, timezone: 'America/Chicago', utc_offset: -6 },
+  { city: 'Denver', state: 'CO', country: 'US', postal_code: '80204', lat: 39.7487, lon: -105.0077, timezone: 'America/Denver', utc_offset: -7 },
+  { city: 'Los Angeles', state: 'CA', country: 'US', postal_code: '90015', lat: 34.0430, lon: -118.2673, timezone: 'America/Los_Angeles', utc_offset: -8 },
+  { city: 'Seattle', state: 'WA', country: 'US', postal_code: '98109', lat: 47.6221, lon: -122.3540, timezone: 'America/Los_Angeles', utc_offset: -8 },
+];
+
+const VENUE_KINDS = ['Arena', 'Theater', 'Music Hall', 'Stadium'];
+
+const TAXONOMIES = [
+  { id: 1000000, name: 'sports', parent_id: null },
+  { id: 1030000, name: 'nba', parent_id: 1000000 },
+  { id: 1010000, name: 'mlb', parent_id: 1000000 },
+  { id: 2000000, name: 'concert', parent_id: null },
+  { id: 2010000, name: 'comedy', parent_id: null },
+  { id: 3000000, name: 'theater', parent_id: null },
+  { id: 3010000, name: 'broadway_tickets_national', parent_id: 3000000 },
+];
+
+const GENRES = ['rock', 'pop', 'indie', 'hip-hop', 'country', 'jazz', 'electronic'];
+const BAND_ADJECTIVES = ['Neon', 'Silver', 'Velvet', 'Electric', 'Midnight', 'Golden', 'Hollow', 'Crimson', 'Paper', 'Wild'];
+const BAND_NOUNS = ['Foxes', 'Lanterns', 'Harbors', 'Echoes', 'Comets', 'Pines', 'Tides', 'Ravens', 'Satellites', 'Rivers'];
+const FIRST_NAMES = ['Maya', 'Jordan', 'Riley', 'Sam', 'Alex', 'Casey', 'Devon', 'Morgan', 'Quinn', 'Taylor'];
+const LAST_NAMES = ['Reyes', 'Park', 'Okafor', 'Lindqvist', 'Moreau', 'Tanaka', 'Byrne', 'Castillo', 'Novak', 'Shah'];
+const MASCOTS = ['Comets', 'Hawks', 'Miners', 'Sailors', 'Wolves', 'Giants', 'Bears', 'Knights'];
+const SHOWS = ['The Lighthouse', 'Paper Moon', 'Northern Lights', 'The Long Walk Home', 'Carousel Nights', 'A Winter Garden'];
+
+/**
+ * Deterministic PRNG (mulberry32), so a seed always produces the same dataset.
+ */
+export function createRandom(seed = DEFAULT_SEED) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
+
+function slugify(value) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function pad(value) {
+  return String(value).padStart(2, '0');
+}
+
+// SeatGeek datetimes carry no zone designator
+function formatDatetime(date) {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:00`;
+}
+
+function startOfUtcDay(date = new Date()) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function taxonomyByName(name) {
+  return TAXONOMIES.find(taxonomy => taxonomy.name === name);
+}
+
+function taxonomyChain(name) {
+  const taxonomy = taxonomyByName(name);
+  const parent = taxonomy.parent_id ? TAXONOMIES.find(candidate => candidate.id === taxonomy.parent_id) : null;
+  return parent ? [parent, taxonomy] : [taxonomy];
+}
+
+function imageSet(slug) {
+  const url = `https://seatgeek.com/images/performers-landscape/${slug}/huge.jpg`;
+  return { huge: url, large: url, medium: url, small: url };
+}
+
+/**
+ * Build a synthetic dataset of venues, performers and events. Events start on
+ * `now` (defaults to the start of the current UTC day) and run `days` ahead.
+ */
+export function generateDataset(options = {}) {
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const performerCount = options.performers ?? 40;
+  const eventCount = options.events ?? 200;
+  const days = options.days ?? 120;
+  const now = startOfUtcDay(options.now ? new Date(options.now) : new Date());
+
+  const venues = [];
+  for (const place of CITIES) {
+    for (const kind of VENUE_KINDS.slice(0, 2 + (venues.length % 2))) {
+      const id = 1000 + venues.length;
+      const name = `${place.city} ${kind}`;
+      const slug = slugify(name);
+      venues.push({
+        id,
+        name,
+        slug,
+        address: `${random.int(1, 999)} Main St`,
+        extended_address: `${place.city}, ${place.state} ${place.postal_code}`,
+        city: place.city,
+        state: place.state,
+        country: place.country,
+        postal_code: place.postal_code,
+        display_location: `${place.city}, ${place.state}`,
+        timezone: place.timezone,
+        location: {
+          lat: Math.round((place.lat + (random.next() - 0.5) * 0.05) * 10000) / 10000,
+          lon: Math.round((place.lon + (random.next() - 0.5) * 0.05) * 10000) / 10000,
+        },
+        capacity: kind === 'Stadium' ? random.int(30000, 60000) : random.int(1500, 20000),
+        score: Math.round(random.next() * 100) / 100,
+        url: `https://seatgeek.com/venues/${slug}/tickets`,
+        utc_offset: place.utc_offset,
+      });
+    }
+  }
+
+  const performers = [];
+  const usedNames = new Set();
+  while (performers.length < performerCount) {
+    const roll = random.next();
+    let name;
+    let category;
+    let genres = [];
+    if (roll < 0.5) {
+      name = `The ${random.pick(BAND_ADJECTIVES)} ${random.pick(BAND_NOUNS)}`;
+      category = 'concert';
+      const genre = random.pick(GENRES);
+      genres = [{ id: GENRES.indexOf(genre) + 1, name: genre, slug: slugify(genre), primary: true }];
+    } else if (roll < 0.7) {
+      name = `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+      category = 'comedy';
+    } else if (roll < 0.9) {
+      name = `${random.pick(CITIES).city} ${random.pick(MASCOTS)}`;
+      category = random.next() < 0.5 ? 'nba' : 'mlb';
+    } else {
+      name = random.pick(SHOWS);
+      category = 'broadway_tickets_national';
+    }
+    if (usedNames.has(name)) {
+      continue;
+    }
+    usedNames.add(name);
+
+    const slug = slugify(name);
+    const score = Math.round(random.next() * 100) / 100;
+    performers.push({
+      id: 5000 + performers.length,
+      name,
+      short_name: name,
+      slug,
+      type: category === 'nba' || category === 'mlb' ? category : category === 'concert' ? 'band' : category,
+      url: `https://seatgeek.com/${slug}-tickets`,
+      image: imageSet(slug).huge,
+      images: imageSet(slug),
+      score,
+      popularity: Math.round(score * 1000),
+      genres,
+      taxonomies: taxonomyChain(category),
+      has_upcoming_events: false,
+      num_upcoming_events: 0,
+    });
+  }
+
+  const events = [];
+  for (let index = 0; index < eventCount; index++) {
+    const headliner = random.pick(performers);
+    const venue = random.pick(venues);
+    const category = headliner.taxonomies[headliner.taxonomies.length - 1].name;
+
+    const eventPerformers = [{ ...headliner, primary: true }];
+    let title = headliner.name;
+    if (category === 'nba' || category === 'mlb') {
+      const opponents = performers.filter(candidate => candidate.id !== headliner.id && candidate.type === headliner.type);
+      if (opponents.length > 0) {
+        const away = random.pick(opponents);
+        eventPerformers.push({ ...away, primary: false });
+        title = `${away.name} at ${headliner.name}`;
+      }
+    } else if (category === 'concert' && random.next() < 0.4) {
+      const openers = performers.filter(candidate => candidate.id !== headliner.id && candidate.type === 'band');
+      if (openers.length > 0) {
+        const opener = random.pick(openers);
+        eventPerformers.push({ ...opener, primary: false });
+        title = `${headliner.name} with ${opener.name}`;
+      }
+    }
+
+    // Shows start at 7 or 8pm local time
+    const local = new Date(now.getTime() + random.int(0, days) * 86400000);
+    local.setUTCHours(random.pick([19, 20]), random.pick([0, 30]));
+    const utc = new Date(local.getTime() - venue.utc_offset * 3600000);
+
+    const lowest = random.int(15, 150);
+    const median = lowest + random.int(10, 120);
+    const highest = median + random.int(50, 600);
+    const id = 9000000 + index;
+    const score = Math.round(random.next() * 100) / 100;
+    const localDate = formatDatetime(local).slice(0, 10);
+
+    const { utc_offset, ...publicVenue } = venue;
+    events.push({
+      id,
+      title,
+      short_title: title,
+      type: category,
+      status: random.next() < 0.03 ? 'postponed' : 'normal',
+      url: `https://seatgeek.com/${headliner.slug}-tickets/${localDate}-${slugify(venue.city)}-${venue.slug}/${category}/${id}`,
+      score,
+      popularity: Math.round(score * 1000),
+      announce_date: formatDatetime(new Date(now.getTime() - random.int(10, 200) * 86400000)),
+      datetime_local: formatDatetime(local),
+      datetime_utc: formatDatetime(utc),
+      datetime_tbd: false,
+      date_tbd: false,
+      time_tbd: false,
+      visible_until_utc: formatDatetime(new Date(utc.getTime() + 4 * 3600000)),
+      performers: eventPerformers,
+      venue: publicVenue,
+      taxonomies: headliner.taxonomies,
+      stats: {
+        lowest_price: lowest,
+        median_price: median,
+        average_price: Math.round((lowest + median + highest) / 3),
+        highest_price: highest,
+        listing_count: random.int(0, 800),
+      },
+    });
+  }
+
+  for (const performer of performers) {
+    performer.num_upcoming_events = events.filter(event => event.performers.some(item => item.id === performer.id)).length;
+    performer.has_upcoming_events = performer.num_upcoming_events > 0;
+  }
+
+  const sections = new Map();
+  for (const event of events) {
+    const sectionRandom = createRandom(event.id);
+    const rows = (count) => Array.from({ length: count }, (_, row) => String(row + 1));
+    const eventSections = { floor: ['a', 'b', 'c'] };
+    for (let section = 101; section < 101 + sectionRandom.int(4, 12); section++) {
+      eventSections[String(section)] = rows(sectionRandom.int(8, 25));
+    }
+    sections.set(event.id, eventSections);
+  }
+
+  return {
+    taxonomies: TAXONOMIES,
+    venues: venues.map(({ utc_offset, ...venue }) => venue),
+    performers,
+    events,
+    sections,
+  };
+}
+
+// ---- Query filtering ----------------------------------------------------------
+
+function list(value) {
+  return String(value).split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+function toTime(value) {
+  const text = String(value);
+  // Dates without a zone are UTC, matching how the API treats datetime_utc
+  return Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(text) || text.length <= 10 ? text : `${text}Z`);
+}
+
+function parseRange(value) {
+  const match = /^(\d+(?:\.\d+)?)(mi|km)?$/.exec(String(value || DEFAULT_RANGE));
+  if (!match) {
+    return 30;
+  }
+  const amount = parseFloat(match[1]);
+  return match[2] === 'km' ? amount / 1.609344 : amount;
+}
+
+function distanceMiles(a, b) {
+  const toRadians = (degrees) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Apply .gt/.gte/.lt/.lte filters on a field, e.g. datetime_utc.gte.
+ */
+function matchesBounds(query, field, value, parse = Number) {
+  const checks = { gt: (a, b) => a > b, gte: (a, b) => a >= b, lt: (a, b) => a < b, lte: (a, b) => a <= b };
+  for (const [suffix, check] of Object.entries(checks)) {
+    const bound = query[`${field}.${suffix}`];
+    if (bound === undefined) {
+      continue;
+    }
+    if (value === null || value === undefined || !check(parse(value), parse(bound))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function matchesText(query, haystack) {
+  if (!query.q) {
+    return true;
+  }
+  // Hyphens count as spaces, so a performer slug works as a search term
+  const text = haystack.join(' ').toLowerCase().replace(/-/g, ' ');
+  return String(query.q).toLowerCase().split(/[\s-]+/).filter(Boolean).every(term => text.includes(term));
+}
+
+function matchesTaxonomy(query, taxonomies) {
+  if (query['taxonomies.name'] && !taxonomies.some(taxonomy => list(query['taxonomies.name']).includes(taxonomy.name))) {
+    return false;
+  }
+  if (query['taxonomies.id'] && !taxonomies.some(taxonomy => list(query['taxonomies.id']).includes(String(taxonomy.id)))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Geo origin from lat/lon or postal_code; geoip is ignored since requests are local.
+ */
+function geoOrigin(query) {
+  if (query.lat !== undefined && query.lon !== undefined) {
+    return { lat: parseFloat(query.lat), lon: parseFloat(query.lon) };
+  }
+  if (query.postal_code) {
+    const place = CITIES.find(candidate => candidate.postal_code === String(query.postal_code));
+    return place ? { lat: place.lat, lon: place.lon } : null;
+  }
+  return null;
+}
+
+function matchesVenue(query, venue, origin) {
+  const fields = ['id', 'city', 'state', 'country', 'slug', 'postal_code'];
+  for (const field of fields) {
+    const value = query[`venue.${field}`];
+    if (value !== undefined && !list(value).includes(String(venue[field]).toLowerCase())) {
+      return false;
+    }
+  }
+  if (origin && distanceMiles(origin, venue.location) > parseRange(query.range)) {
+    return false;
+  }
+  return true;
+}
+
+function filterEvents(events, query) {
+  const origin = geoOrigin(query);
+  return events.filter(event => {
+    if (query.id && !list(query.id).includes(String(event.id))) {
+      return false;
+    }
+    if (query['performers.slug'] && !event.performers.some(performer => list(query['performers.slug']).includes(performer.slug))) {
+      return false;
+    }
+    if (query['performers.id'] && !event.performers.some(performer => list(query['performers.id']).includes(String(performer.id)))) {
+      return false;
+    }
+    return matchesText(query, [event.title, event.venue.name, event.venue.city, ...event.performers.map(performer => performer.name)])
+      && matchesVenue(query, event.venue, origin)
+      && matchesTaxonomy(query, event.taxonomies)
+      && matchesBounds(query, 'datetime_utc', event.datetime_utc, toTime)
+      && matchesBounds(query, 'datetime_local', event.datetime_local, toTime)
+      && matchesBounds(query, 'lowest_price', event.stats.lowest_price)
+      && matchesBounds(query, 'highest_price', event.stats.highest_price)
+      && matchesBounds(query, 'listing_count', event.stats.listing_count)
+      && matchesBounds(query, 'score', event.score);
+  });
+}
+
+function sortItems(items, sort, fallback) {
+  const [field, direction] = String(sort || fallback).split('.');
+  const read = (item) => {
+    if (field === 'lowest_price' || field === 'highest_price' || field === 'average_price') {
+      return item.stats?.[field] ?? null;
+    }
+    return field === 'datetime_utc' || field === 'datetime_local' || field === 'announce_date' ? toTime(item[field]) : item[field];
+  };
+  return [...items].sort((a, b) => {
+    const left = read(a);
+    const right = read(b);
+    if (left === right) {
+      return a.id - b.id;
+    }
+    return (left < right ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+  });
+}
+
+function paginate(items, query, key, extraMeta = {}) {
+  const perPage = Math.min(MAX_PER_PAGE, Math.max(1, parseInt(query.per_page ?? DEFAULT_PER_PAGE, 10) || DEFAULT_PER_PAGE));
+  const page = Math.max(1, parseInt(query.page ?? 1, 10) || 1);
+  return {
+    [key]: items.slice((page - 1) * perPage, page * perPage),
+    meta: { total: items.length, took: 1, page, per_page: perPage, ...extraMeta },
+  };
+}
+
+function geolocationMeta(query) {
+  const origin = geoOrigin(query);
+  if (!origin) {
+    return null;
+  }
+  const nearest = [...CITIES].sort((a, b) => distanceMiles(origin, a) - distanceMiles(origin, b))[0];
+  return {
+    lat: origin.lat,
+    lon: origin.lon,
+    city: nearest.city,
+    state: nearest.state,
+    country: nearest.country,
+    postal_code: query.postal_code ?? nearest.postal_code,
+    display_name: `${nearest.city}, ${nearest.state}`,
+    range: query.range ?? DEFAULT_RANGE,
+  };
+}
+
+// ---- Routes -------------------------------------------------------------------
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function notFound(kind, id) {
+  return new HttpError(404, `${kind} ${id} not found`);
+}
+
+function findById(items, id, kind) {
+  const item = items.find(candidate => String(candidate.id) === id);
+  if (!item) {
+    throw notFound(kind, id);
+  }
+  return item;
+}
+
+function listEvents(dataset, query) {
+  const events = sortItems(filterEvents(dataset.events, query), query.sort, 'datetime_utc.asc');
+  return paginate(events, query, 'events', { geolocation: geolocationMeta(query) });
+}
+
+function listPerformers(dataset, query) {
+  const performers = dataset.performers.filter(performer => {
+    if (query.id && !list(query.id).includes(String(performer.id))) {
+      return false;
+    }
+    if (query.slug && !list(query.slug).includes(performer.slug)) {
+      return false;
+    }
+    if (query['genres.slug'] && !performer.genres.some(genre => list(query['genres.slug']).includes(genre.slug))) {
+      return false;
+    }
+    return matchesText(query, [performer.name]) && matchesTaxonomy(query, performer.taxonomies);
+  });
+  return paginate(sortItems(performers, query.sort, 'score.desc'), query, 'performers');
+}
+
+function listVenues(dataset, query) {
+  const origin = geoOrigin(query);
+  const venues = dataset.venues.filter(venue => {
+    if (query.id && !list(query.id).includes(String(venue.id))) {
+      return false;
+    }
+    for (const field of ['city', 'state', 'country', 'postal_code', 'slug']) {
+      if (query[field] !== undefined && !list(query[field]).includes(String(venue[field]).toLowerCase())) {
+        return false;
+      }
+    }
+    if (origin && distanceMiles(origin, venue.location) > parseRange(query.range)) {
+      return false;
+    }
+    return matchesText(query, [venue.name, venue.city]);
+  });
+  return paginate(sortItems(venues, query.sort, 'score.desc'), query, 'venues', { geolocation: geolocationMeta(query) });
+}
+
+/**
+ * Seed performers for recommendations, from performers.id and/or events.id
+ * (or their performer_ids/event_ids aliases).
+ */
+function recommendationSeeds(dataset, query) {
+  const seeds = new Map();
+  const performerIds = query['performers.id'] ?? query.performer_ids;
+  const eventIds = query['events.id'] ?? query.event_ids;
+  for (const id of performerIds ? list(performerIds) : []) {
+    const performer = dataset.performers.find(candidate => String(candidate.id) === id);
+    if (performer) {
+      seeds.set(performer.id, performer);
+    }
+  }
+  for (const id of eventIds ? list(eventIds) : []) {
+    const event = dataset.events.find(candidate => String(candidate.id) === id);
+    for (const performer of event ? event.performers : []) {
+      seeds.set(performer.id, performer);
+    }
+  }
+  if (seeds.size === 0) {
+    throw new HttpError(400, 'A performers.id or events.id seed is required for recommendations');
+  }
+  return [...seeds.values()];
+}
+
+function similarityScore(performer, seeds) {
+  const names = new Set(performer.taxonomies.map(taxonomy => taxonomy.name));
+  const genres = new Set(performer.genres.map(genre => genre.slug));
+  let best = 0;
+  for (const seed of seeds) {
+    const sharedTaxonomies = seed.taxonomies.filter(taxonomy => names.has(taxonomy.name)).length;
+    const sharedGenres = (seed.genres || []).filter(genre => genres.has(genre.slug)).length;
+    best = Math.max(best, sharedTaxonomies * 0.3 + sharedGenres * 0.5);
+  }
+  return Math.round(Math.min(1, best + performer.score * 0.2) * 1000) / 1000;
+}
+
+function recommendEvents(dataset, query) {
+  const seeds = recommendationSeeds(dataset, query);
+  const seedIds = new Set(seeds.map(seed => seed.id));
+  const { 'performers.id': _performers, 'events.id': _events, performer_ids: _performerIds, event_ids: _eventIds, ...filters } = query;
+  const recommendations = filterEvents(dataset.events, filters)
+    .filter(event => !event.performers.some(performer => seedIds.has(performer.id)))
+    .map(event => ({ event, score: similarityScore(event.performers[0], seeds) }))
+    .filter(recommendation => recommendation.score > 0.3)
+    .sort((a, b) => b.score - a.score || a.event.id - b.event.id);
+  return paginate(recommendations, query, 'recommendations', { geolocation: geolocationMeta(query) });
+}
+
+function recommendPerformers(dataset, query) {
+  const seeds = recommendationSeeds(dataset, query);
+  const seedIds = new Set(seeds.map(seed => seed.id));
+  const recommendations = dataset.performers
+    .filter(performer => !seedIds.has(performer.id) && matchesTaxonomy(query, performer.taxonomies))
+    .map(performer => ({ performer, score: similarityScore(performer, seeds) }))
+    .filter(recommendation => recommendation.score > 0.3)
+    .sort((a, b) => b.score - a.score || a.performer.id - b.performer.id);
+  return paginate(recommendations, query, 'recommendations');
+}
+
+function route(dataset, path, query) {
+  const segments = path.split('/').filter(Boolean);
+  const [resource, id, extra] = segments;
+
+  if (resource === 'events' && id === 'section_info' && extra) {
+    findById(dataset.events, extra, 'Event');
+    return { sections: dataset.sections.get(Number(extra)) };
+  }
+  if (resource === 'events') {
+    return id ? findById(dataset.events, id, 'Event') : listEvents(dataset, query);
+  }
+  if (resource === 'performers') {
+    return id ? findById(dataset.performers, id, 'Performer') : listPerformers(dataset, query);
+  }
+  if (resource === 'venues') {
+    return id ? findById(dataset.venues, id, 'Venue') : listVenues(dataset, query);
+  }
+  if (resource === 'taxonomies') {
+    return paginate(dataset.taxonomies, query, 'taxonomies');
+  }
+  if (resource === 'recommendations') {
+    return id === 'performers' ? recommendPerformers(dataset, query) : recommendEvents(dataset, query);
+  }
+  throw new HttpError(404, `No route for ${path}`);
+}
+
+// ---- Server -------------------------------------------------------------------
+
+function sendJson(response, status, body, headers = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Create a fake SeatGeek API server.
+ *
+ * Options:
+ *   seed, performers, events, days, now  passed to generateDataset
+ *   clientId     when set, requests must authenticate with this client id
+ *   faults       { rate429, rate5xx, rateTimeout } probabilities of a random fault per request
+ *   hangMs       how long an injected timeout holds the request before dropping it
+ */
+export function createFakeSeatGeek(options = {}) {
+  const dataset = generateDataset(options);
+  const faultRandom = createRandom((options.seed ?? DEFAULT_SEED) + 1);
+  const rates = { rate429: 0, rate5xx: 0, rateTimeout: 0, ...(options.faults || {}) };
+  const hangMs = options.hangMs ?? DEFAULT_HANG_MS;
+  const requests = [];
+  const queuedFaults = [];
+  const sockets = new Set();
+  let server = null;
+  let baseUrl = null;
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  /**
+   * Next fault for a request: queued faults first, then random ones.
+   */
+  function takeFault(path) {
+    const index = queuedFaults.findIndex(fault => !fault.path || path.startsWith(fault.path));
+    if (index !== -1) {
+      const fault = queuedFaults[index];
+      if (--fault.remaining <= 0) {
+        queuedFaults.splice(index, 1);
+      }
+      return fault;
+    }
+    const roll = faultRandom.next();
+    if (roll < rates.rate429) {
+      return { status: 429 };
+    }
+    if (roll < rates.rate429 + rates.rate5xx) {
+      return { status: 503 };
+    }
+    if (roll < rates.rate429 + rates.rate5xx + rates.rateTimeout) {
+      return { timeout: true };
+    }
+    return null;
+  }
+
+  function isAuthorized(request, query) {
+    if (!options.clientId) {
+      return true;
+    }
+    const authorization = request.headers.authorization || '';
+    const basic = authorization.startsWith('Basic ')
+      ? Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':')[0]
+      : null;
+    return (basic || query.client_id) === options.clientId;
+  }
+
+  function handle(request, response) {
+    const url = new URL(request.url, 'http://localhost');
+    // Accept paths with or without the /2 version prefix
+    const path = url.pathname.replace(/^\/2(?=\/|$)/, '') || '/';
+    const query = Object.fromEntries(url.searchParams.entries());
+    requests.push({ method: request.method, path, query, headers: request.headers });
+    maxInFlight = Math.max(maxInFlight, ++inFlight);
+    response.once('close', () => inFlight--);
+
+    if (request.method !== 'GET') {
+      sendJson(response, 405, { status: 'error', code: 405, message: 'Method not allowed' });
+      return;
+    }
+
+    const fault = takeFault(path);
+    if (fault?.timeout) {
+      const timer = setTimeout(() => request.socket.destroy(), hangMs);
+      request.socket.once('close', () => clearTimeout(timer));
+      return;
+    }
+    if (fault?.status === 429) {
+      sendJson(response, 429, { status: 'error', code: 429, message: 'Too Many Requests' },
+        fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : {});
+      return;
+    }
+    if (fault?.status) {
+      sendJson(response, fault.status, { status: 'error', code: fault.status, message: 'Upstream error' });
+      return;
+    }
+    if (fault?.delayMs) {
+      setTimeout(() => respond(request, response, path, query), fault.delayMs);
+      return;
+    }
+    respond(request, response, path, query);
+  }
+
+  function respond(request, response, path, query) {
+    if (!isAuthorized(request, query)) {
+      const status = request.headers.authorization || query.client_id ? 403 : 401;
+      sendJson(response, status, { status: 'error', code: status, message: status === 401 ? 'Authentication required' : 'Invalid client id' });
+      return;
+    }
+
+    try {
+      sendJson(response, 200, route(dataset, path, query));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(response, status, { status: 'error', code: status, message: error.message });
+    }
+  }
+
+  return {
+    dataset,
+    requests,
+
+    get url() {
+      return baseUrl;
+    },
+
+    /**
+     * Most requests open at the same time since the last reset.
+     */
+    get maxInFlight() {
+      return maxInFlight;
+    },
+
+    /**
+     * Start listening and resolve with the API base url (including the /2 prefix).
+     */
+    start(port = 0, host = '127.0.0.1') {
+      server = http.createServer(handle);
+      server.on('connection', socket => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+      });
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          baseUrl = `http://${host}:${server.address().port}/2`;
+          resolve(baseUrl);
+        });
+      });
+    },
+
+    stop() {
+      if (!server) {
+        return Promise.resolve();
+      }
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      const closing = server;
+      server = null;
+      return new Promise(resolve => closing.close(() => resolve()));
+    },
+
+    /**
+     * Fail the next `count` requests (optionally only those under `path`) with
+     * { status: 429, retryAfter }, { status: 5xx } or { timeout: true }, or answer
+     * them normally after { delayMs }.
+     */
+    inject(fault, count = 1) {
+      queuedFaults.push({ ...fault, remaining: count });
+    },
+
+    setFaultRates(faults) {
+      Object.assign(rates, faults);
+    },
+
+    reset() {
+      requests.length = 0;
+      queuedFaults.length = 0;
+      maxInFlight = inFlight;
+      Object.assign(rates, { rate429: 0, rate5xx: 0, rateTimeout: 0 });
+    },
+  };
+}
+
+// ---- Standalone -----------------------------------------------------------------
+
+function parseArgs(argv) {
+  const args = {};
+  for (let index = 0; index < argv.length; index++) {
+    const match = /^--([a-z0-9-]+)(?:=(.*))?$/.exec(argv[index]);
+    if (match) {
+      args[match[1]] = match[2] ?? argv[++index];
+    }
+  }
+  return args;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = parseArgs(process.argv.slice(2));
+  const fake = createFakeSeatGeek({
+    seed: args.seed ? parseInt(args.seed, 10) : DEFAULT_SEED,
+    clientId: args['client-id'],
+    faults: {
+      rate429: parseFloat(args['rate-429'] || '0'),
+      rate5xx: parseFloat(args['rate-5xx'] || '0'),
+      rateTimeout: parseFloat(args['rate-timeout'] || '0'),
+    },
+  });
+
+  const baseUrl = await fake.start(parseInt(args.port || '8090', 10));
+  console.log(`Fake SeatGeek API listening on ${baseUrl}`);
+  console.log(`Run the MCP server against it with SEATGEEK_API_BASE=${baseUrl}`);
+
+  process.on('SIGINT', async () => {
+    await fake.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,1316 @@
+/**
+ * Offline test suite: drives the MCP server through the SDK client over stdio and
+ * Streamable HTTP, with a fake SeatGeek API standing in for the real one.
+ *
+ * Run with `npm test` (builds first, then runs `node --test`).
+ */
+
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { ReadBuffer, serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import { createFakeSeatGeek } from './fake-seatgeek.js';
+
+const CLIENT_ID = 'offline-test-client';
+
+const fake = createFakeSeatGeek({ seed: 7, now: '2026-01-01', clientId: CLIENT_ID });
+const baseUrl = await fake.start();
+
+// Endpoints are resolved when the server modules load, so configure them first
+Object.assign(process.env, {
+  SEATGEEK_API_BASE: baseUrl,
+  SEATGEEK_CLIENT_ID: CLIENT_ID,
+  SEATGEEK_CACHE: 'off',
+  SEATGEEK_CASSETTE: 'off',
+  SEATGEEK_RATE_LIMIT_RPS: '0',
+  SEATGEEK_TRACK_LINKS: '',
+});
+
+const { createMcpServer, startHttpServer } = await import('../dist/mcpServer.js');
+const { exampleGroups, workflows } = await import('../dist/prompts/catalog.js');
+const { setClock } = await import('../dist/shared/dates.js');
+const { getAffiliateConfig } = await import('../dist/shared/core.js');
+const { createLruCache, setResponseCache, getCacheStats, cacheKey } = await import('../dist/shared/cache.js');
+const { createTokenBucket } = await import('../dist/shared/rateLimit.js');
+const { setCassetteConfig, recordResponse, replayResponse, CassetteMissError } = await import('../dist/shared/cassette.js');
+
+/**
+ * Client side of a stdio connection over in-memory streams, using the SDK's
+ * newline-delimited JSON-RPC framing.
+ */
+class StreamClientTransport {
+  constructor(input, output) {
+    this.input = input;
+    this.output = output;
+    this.readBuffer = new ReadBuffer();
+  }
+
+  async start() {
+    this.input.on('data', chunk => {
+      this.readBuffer.append(chunk);
+      let message;
+      while ((message = this.readBuffer.readMessage()) !== null) {
+        this.onmessage?.(message);
+      }
+    });
+  }
+
+  async send(message) {
+    this.output.write(serializeMessage(message));
+  }
+
+  async close() {
+    this.output.end();
+    this.onclose?.();
+  }
+}
+
+async function connectStdio() {
+  const clientToServer = new PassThrough();
+  const serverToClient = new PassThrough();
+  const server = createMcpServer();
+  await server.connect(new StdioServerTransport(clientToServer, serverToClient));
+
+  const client = new Client({ name: 'offline-test', version: '1.0.0' });
+  await client.connect(new StreamClientTransport(serverToClient, clientToServer));
+  return { client, close: async () => { await client.close(); await server.close(); } };
+}
+
+async function connectHttp() {
+  const server = createMcpServer();
+  const httpServer = await startHttpServer(server, 0);
+  const url = new URL(`http://127.0.0.1:${httpServer.address().port}/mcp`);
+
+  const client = new Client({ name: 'offline-test', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(url));
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.close();
+      httpServer.closeAllConnections();
+      await new Promise(resolve => httpServer.close(resolve));
+    },
+  };
+}
+
+async function callTool(client, name, args) {
+  const result = await client.callTool({ name, arguments: args });
+  assert.equal(result.content[0].type, 'text');
+  assert.ok(!result.isError, `${name} failed: ${result.content[0].text}`);
+  const output = JSON.parse(result.content[0].text);
+  if ((args.format ?? 'structured') === 'structured') {
+    assert.deepEqual(result.structuredContent, output, 'text block should repeat structuredContent');
+  }
+  return output;
+}
+
+/**
+ * Call a tool that is expected to fail and return its error payload.
+ */
+async function callToolError(client, name, args) {
+  const result = await client.callTool({ name, arguments: args });
+  assert.equal(result.isError, true, `${name} should have failed`);
+  const output = JSON.parse(result.content[0].text);
+  assert.equal(typeof output.error, 'string');
+  assert.equal(typeof output.suggestion, 'string');
+  assert.ok(!('args' in output.details), 'error payload should not echo the arguments');
+  return output;
+}
+
+function upstreamRequests(path) {
+  return fake.requests.filter(request => request.path === path);
+}
+
+/**
+ * Performers the fake returns for a search term, mirroring its text match and
+ * score ordering.
+ */
+function performersMatching(term, limit) {
+  return fake.dataset.performers
+    .filter(performer => performer.name.toLowerCase().replace(/-/g, ' ').includes(term))
+    .sort((a, b) => b.score - a.score || a.id - b.id)
+    .slice(0, limit);
+}
+
+/**
+ * Great-circle distance in miles, computed independently of the server's geo module.
+ */
+function haversineMiles(from, to) {
+  const toRadians = degrees => degrees * Math.PI / 180;
+  const a = Math.sin(toRadians(to.lat - from.lat) / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(toRadians(to.lon - from.lon) / 2) ** 2;
+  return 2 * 3958.8 * Math.asin(Math.sqrt(a));
+}
+
+function assertCondensedEvent(event) {
+  for (const key of ['id', 'title', 'datetime_utc', 'datetime_local', 'url', 'venue', 'performers', 'pricing', 'taxonomies']) {
+    assert.ok(key in event, `event is missing ${key}`);
+  }
+  assert.equal(typeof event.id, 'number');
+  assert.ok(Array.isArray(event.performers));
+}
+
+function assertPageInfo(output, page = 1) {
+  assert.equal(typeof output.total, 'number');
+  assert.equal(output.page, page);
+  assert.equal(typeof output.has_more, 'boolean');
+  assert.ok(output.next_cursor === null || typeof output.next_cursor === 'string');
+}
+
+const transports = { stdio: connectStdio, http: connectHttp };
+
+for (const [transportName, connect] of Object.entries(transports)) {
+  describe(`over ${transportName}`, () => {
+    let connection;
+    let client;
+
+    before(async () => {
+      connection = await connect();
+      client = connection.client;
+    });
+
+    after(async () => {
+      await connection.close();
+    });
+
+    beforeEach(() => {
+      fake.reset();
+    });
+
+    it('lists the tools', async () => {
+      const { tools } = await client.listTools();
+      const names = tools.map(tool => tool.name);
+      for (const name of ['find_events', 'find_event_recommendations', 'find_performer_recommendations', 'retrieve_event_venue_information']) {
+        assert.ok(names.includes(name), `${name} is not registered`);
+      }
+      for (const tool of tools) {
+        assert.equal(tool.outputSchema?.type, 'object', `${tool.name} has no output schema`);
+      }
+    });
+
+    it('returns the raw upstream response as text with format json, keeping structuredContent', async () => {
+      const result = await client.callTool({ name: 'list_categories', arguments: { format: 'json' } });
+      assert.ok(!result.isError, result.content[0].text);
+      assert.ok(Array.isArray(JSON.parse(result.content[0].text).taxonomies));
+      assert.ok(result.structuredContent.categories.length > 0);
+    });
+
+    describe('find_events', () => {
+      it('builds the upstream query from venue, date, price, category and sort filters', async () => {
+        const output = await callTool(client, 'find_events', {
+          venue_city: 'Chicago',
+          start_utc: '2026-01-15T00:00:00',
+          end_utc: '2026-04-01T00:00:00',
+          min_price: 20,
+          max_price: 120,
+          taxonomy: 'Concert',
+          sort: 'date_desc',
+          per_page: 5,
+        });
+
+        const [request] = upstreamRequests('/events');
+        assert.deepEqual(request.query, {
+          'venue.city': 'Chicago',
+          'datetime_utc.gte': '2026-01-15T00:00:00',
+          'datetime_utc.lte': '2026-04-01T00:00:00',
+          'lowest_price.gte': '20',
+          'lowest_price.lte': '120',
+          'taxonomies.name': 'concert',
+          sort: 'datetime_utc.desc',
+          per_page: '5',
+          page: '1',
+        });
+        assert.match(request.headers.authorization, /^Basic /);
+
+        assertPageInfo(output);
+        assert.ok(output.events.length > 0 && output.events.length <= 5);
+        for (const event of output.events) {
+          assertCondensedEvent(event);
+          assert.equal(event.venue.display_location, 'Chicago, IL');
+          assert.ok(event.taxonomies.includes('concert'));
+          assert.ok(event.pricing.lowest_price >= 20 && event.pricing.lowest_price <= 120);
+        }
+        const dates = output.events.map(event => event.datetime_utc);
+        assert.deepEqual(dates, [...dates].sort().reverse());
+      });
+
+      it('renders events as a markdown table with format markdown', async () => {
+        const result = await client.callTool({ name: 'find_events', arguments: { venue_city: 'Chicago', per_page: 3, format: 'markdown' } });
+
+        assert.ok(!result.isError, result.content[0].text);
+        const lines = result.content[0].text.split('\n');
+        assert.equal(lines[0], '| Date (local) | Event | Venue | City | From |');
+        const rows = lines.filter(line => line.startsWith('| ') && !line.startsWith('| ---')).slice(1);
+        assert.equal(rows.length, result.structuredContent.events.length);
+        for (const [index, event] of result.structuredContent.events.entries()) {
+          assert.ok(rows[index].includes(`[${event.title}](${event.url})`));
+          assert.ok(rows[index].includes('Chicago, IL'));
+          assert.ok(rows[index].includes(`$${event.pricing.lowest_price}`));
+        }
+        assert.match(result.content[0].text, /_Showing 3 of \d+ results \(page 1\)\. More results are available; pass cursor `[^`]+` to continue\._$/);
+      });
+
+      it('notes failed performer searches and the text search fallback in markdown', async () => {
+        const slugs = performersMatching('the', 5).map(performer => performer.slug);
+        fake.inject({ status: 400, path: '/events' });
+        const partial = await client.callTool({ name: 'find_events', arguments: { q: 'the', per_page: 10, format: 'markdown' } });
+        assert.ok(!partial.isError, partial.content[0].text);
+        const [failure] = partial.structuredContent.performer_search.failed;
+        assert.ok(partial.content[0].text.startsWith(`_Events for 1 of ${slugs.length} performers could not be fetched and are missing: \`${failure.slug}\` (`));
+
+        fake.inject({ status: 400, path: '/events' }, slugs.length);
+        const fallback = await client.callTool({ name: 'find_events', arguments: { q: 'the', per_page: 10, format: 'markdown' } });
+        assert.ok(!fallback.isError, fallback.content[0].text);
+        assert.equal(fallback.structuredContent.performer_search.fell_back_to_text_search, true);
+        assert.match(fallback.content[0].text, /^_Every performer search failed, so these are text search results for the query instead\._/);
+      });
+
+      it('notes events left out by local filters in markdown', async () => {
+        const result = await client.callTool({ name: 'find_events', arguments: { venue_city: 'Chicago', days_of_week: ['saturday'], per_page: 10, format: 'markdown' } });
+        assert.ok(!result.isError, result.content[0].text);
+        const { filtered_out: filteredOut, has_more: hasMore } = result.structuredContent;
+        assert.ok(filteredOut > 0 && hasMore, 'fixture should drop events from a page with more to follow');
+        assert.ok(result.content[0].text.startsWith(`_${filteredOut} events were left out by the local date and time filters. This page may be short or empty, but more results follow; keep paging with the cursor._`));
+
+        const unfiltered = await client.callTool({ name: 'find_events', arguments: { venue_city: 'Chicago', per_page: 10, format: 'markdown' } });
+        assert.doesNotMatch(unfiltered.content[0].text, /left out/);
+      });
+
+      it('exports events as an iCalendar resource with format ics', async () => {
+        const result = await client.callTool({ name: 'find_events', arguments: { venue_city: 'Chicago', per_page: 3, format: 'ics' } });
+
+        assert.ok(!result.isError, result.content[0].text);
+        const [summary, attachment] = result.content;
+        assert.equal(summary.type, 'text');
+        assert.equal(attachment.type, 'resource');
+        assert.equal(attachment.resource.mimeType, 'text/calendar');
+        assert.equal(attachment.resource.uri, 'seatgeek://calendar/events.ics');
+
+        const ics = attachment.resource.text;
+        assert.ok(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+        assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+        for (const line of ics.split('\r\n')) {
+          assert.ok(Buffer.byteLength(line) <= 75, `line is not folded: ${line}`);
+        }
+        assert.match(ics, /BEGIN:VTIMEZONE\r\nTZID:America\/Chicago\r\n/);
+
+        const vevents = ics.split('BEGIN:VEVENT').slice(1);
+        assert.equal(vevents.length, result.structuredContent.events.length);
+        for (const [index, event] of result.structuredContent.events.entries()) {
+          const unfolded = vevents[index].replace(/\r\n /g, '');
+          assert.ok(unfolded.includes(`UID:seatgeek-event-${event.id}@seatgeek.com`));
+          assert.match(unfolded, /DTSTART;TZID=America\/Chicago:\d{8}T\d{6}\r\n/);
+          assert.ok(unfolded.includes(`URL:${event.url}\r\n`));
+          assert.ok(unfolded.includes('LOCATION:') && unfolded.includes('Chicago\\, IL'));
+        }
+      });
+
+      it('looks up performers first and searches their events by slug', async () => {
+        const performer = fake.dataset.performers.find(candidate => candidate.num_upcoming_events > 0);
+        const output = await callTool(client, 'find_events', { q: performer.name, postal_code: '60612', range: '5000mi' });
+
+        const [performerSearch] = upstreamRequests('/performers');
+        assert.equal(performerSearch.query.q, performer.name);
+
+        const eventSearches = upstreamRequests('/events');
+        assert.ok(eventSearches.length > 0);
+        for (const request of eventSearches) {
+          assert.ok(request.query['performers.slug'], 'event search is missing performers.slug');
+          // Geo filters carry over to the per-performer search
+          assert.equal(request.query.postal_code, '60612');
+          assert.equal(request.query.range, '5000mi');
+        }
+
+        const searchedSlugs = eventSearches.map(request => request.query['performers.slug']);
+        assert.ok(searchedSlugs.includes(performer.slug));
+        assert.ok(output.events.length > 0);
+        assert.ok(output.events.every(event => event.performers.some(item => searchedSlugs.includes(item.slug))));
+        assert.deepEqual(output.performer_search.failed, []);
+        assert.equal(output.performer_search.fell_back_to_text_search, false);
+      });
+
+      it('merges events across matching performers without duplicates', async () => {
+        // "the" matches bands and their openers, which share events
+        const performers = performersMatching('the', 5);
+        const slugs = new Set(performers.map(performer => performer.slug));
+        const expected = fake.dataset.events
+          .filter(event => event.performers.some(performer => slugs.has(performer.slug)))
+          .map(event => event.id);
+        const shared = fake.dataset.events.filter(event => event.performers.filter(performer => slugs.has(performer.slug)).length > 1);
+        assert.ok(shared.length > 0, 'fixture should contain events shared by two matching performers');
+
+        const output = await callTool(client, 'find_events', { q: 'the', per_page: 10, fetch_all: true });
+        const ids = output.events.map(event => event.id);
+
+        assert.equal(new Set(ids).size, ids.length, 'events are duplicated');
+        assert.deepEqual([...ids].sort(), [...expected].sort());
+        // Merged totals add up each performer's total, so shared events count more than once
+        assert.ok(output.total >= expected.length);
+        assert.equal(output.has_more, false);
+        assert.deepEqual(new Set(output.performer_search.searched), slugs);
+        // Only a few performers are merged whatever per_page is, each read with one upstream call
+        assert.equal(upstreamRequests('/performers')[0].query.per_page, '5');
+        assert.equal(upstreamRequests('/events').length, slugs.size);
+      });
+
+      it('follows next_cursor through merged performer results without duplicates or gaps', async () => {
+        const slugs = new Set(performersMatching('the', 5).map(performer => performer.slug));
+        const expected = fake.dataset.events
+          .filter(event => event.performers.some(performer => slugs.has(performer.slug)))
+          .map(event => event.id);
+
+        const eventsOf = slug => fake.dataset.events.filter(event => event.performers.some(performer => performer.slug === slug)).map(event => event.id);
+        const ids = [];
+        const finished = new Set();
+        let pages = 0;
+        let cursor;
+        do {
+          const before = upstreamRequests('/events').length;
+          const output = await callTool(client, 'find_events', { q: 'the', per_page: 10, ...(cursor ? { cursor } : {}) });
+          assert.equal(output.page, pages + 1);
+          ids.push(...output.events.map(event => event.id));
+          cursor = output.next_cursor;
+          pages++;
+
+          const requested = upstreamRequests('/events').slice(before).map(request => request.query['performers.slug']);
+          for (const slug of slugs) {
+            const calls = requested.filter(item => item === slug).length;
+            // Performers whose events were all returned are not fetched again
+            if (finished.has(slug)) {
+              assert.equal(calls, 0, `page ${pages} requested finished performer ${slug}`);
+            }
+            // The page reads where the cursor stopped, plus at most the next upstream page
+            assert.ok(calls <= 2, `page ${pages} requested ${slug} ${calls} times`);
+          }
+          for (const slug of slugs) {
+            if (eventsOf(slug).every(id => ids.includes(id))) {
+              finished.add(slug);
+            }
+          }
+        } while (cursor);
+
+        assert.ok(pages >= 2, 'fixture should need more than one page');
+        assert.equal(new Set(ids).size, ids.length, 'events are duplicated across pages');
+        assert.deepEqual([...ids].sort(), [...expected].sort());
+        assert.equal(finished.size, slugs.size);
+      });
+
+      it('asks for a cursor instead of a page number past 1 for merged performer results', async () => {
+        const output = await callToolError(client, 'find_events', { q: 'the', per_page: 10, page: 3 });
+        assert.equal(output.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(output.details.fields.map(field => field.field), ['page']);
+        assert.equal(upstreamRequests('/events').length, 0);
+      });
+
+      it('keeps SeatGeek\'s score ranking when sorting by popularity', async () => {
+        const result = await client.callTool({ name: 'find_events', arguments: { venue_city: 'Chicago', sort: 'popularity', per_page: 20, format: 'json' } });
+        assert.ok(!result.isError, result.content[0].text);
+
+        const [request] = upstreamRequests('/events');
+        assert.equal(request.query.sort, 'score.desc');
+        const upstreamIds = JSON.parse(result.content[0].text).events.map(event => event.id);
+        assert.deepEqual(result.structuredContent.events.map(event => event.id), upstreamIds);
+        const scores = result.structuredContent.events.map(event => event.score);
+        assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+      });
+
+      it('resolves a when phrase in the given timezone and echoes the range', async () => {
+        // Wednesday, noon in Chicago
+        setClock(() => new Date('2026-01-14T18:00:00Z'));
+        try {
+          const output = await callTool(client, 'find_events', {
+            venue_city: 'Chicago',
+            when: 'this weekend',
+            timezone: 'America/Chicago',
+            start_utc: '2025-01-01',
+          });
+
+          const [request] = upstreamRequests('/events');
+          assert.equal(request.query['datetime_utc.gte'], '2026-01-16T06:00:00');
+          assert.equal(request.query['datetime_utc.lte'], '2026-01-19T05:59:59');
+          assert.deepEqual(output.resolved_dates, {
+            when: 'this weekend',
+            timezone: 'America/Chicago',
+            start_local: '2026-01-16T00:00:00',
+            end_local: '2026-01-18T23:59:59',
+            start_utc: '2026-01-16T06:00:00',
+            end_utc: '2026-01-19T05:59:59',
+          });
+        } finally {
+          setClock(null);
+        }
+      });
+
+      it('clamps month arithmetic to the end of a shorter month', async () => {
+        setClock(() => new Date('2026-01-31T18:00:00Z'));
+        try {
+          const output = await callTool(client, 'find_events', { venue_city: 'Chicago', when: 'the next 1 month', timezone: 'UTC' });
+          assert.equal(output.resolved_dates.start_local, '2026-01-31T00:00:00');
+          assert.equal(output.resolved_dates.end_local, '2026-02-28T23:59:59');
+
+          const twoMonths = await callTool(client, 'find_events', { venue_city: 'Chicago', when: 'next two months', timezone: 'UTC' });
+          assert.equal(twoMonths.resolved_dates.end_local, '2026-03-30T23:59:59');
+        } finally {
+          setClock(null);
+        }
+      });
+
+      it('resolves next <month> said in that month to the following year', async () => {
+        setClock(() => new Date('2026-03-10T18:00:00Z'));
+        try {
+          const next = await callTool(client, 'find_events', { venue_city: 'Chicago', when: 'next march', timezone: 'UTC' });
+          assert.equal(next.resolved_dates.start_local, '2027-03-01T00:00:00');
+          assert.equal(next.resolved_dates.end_local, '2027-03-31T23:59:59');
+
+          const current = await callTool(client, 'find_events', { venue_city: 'Chicago', when: 'march', timezone: 'UTC' });
+          assert.equal(current.resolved_dates.start_local, '2026-03-10T00:00:00');
+          assert.equal(current.resolved_dates.end_local, '2026-03-31T23:59:59');
+        } finally {
+          setClock(null);
+        }
+      });
+
+      it('rejects a when phrase it cannot resolve', async () => {
+        const output = await callToolError(client, 'find_events', { venue_city: 'Chicago', when: 'sometime soonish' });
+        assert.equal(output.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(output.details.fields.map(field => field.field), ['when']);
+        assert.equal(upstreamRequests('/events').length, 0);
+      });
+
+      it('filters on local dates at the venue after widening the upstream window', async () => {
+        const event = fake.dataset.events.find(candidate => candidate.venue.city === 'Los Angeles');
+        const date = event.datetime_local.slice(0, 10);
+        const expected = fake.dataset.events
+          .filter(candidate => candidate.venue.city === 'Los Angeles' && candidate.datetime_local.startsWith(date))
+          .map(candidate => candidate.id);
+
+        const output = await callTool(client, 'find_events', { venue_city: 'Los Angeles', start_local: date, end_local: date, fetch_all: true });
+
+        const [request] = upstreamRequests('/events');
+        assert.ok(request.query['datetime_utc.gte'] < `${date}T00:00:00`);
+        assert.ok(request.query['datetime_utc.lte'] > `${date}T23:59:59`);
+        assert.deepEqual(output.events.map(item => item.id).sort(), [...expected].sort());
+        assert.equal(typeof output.filtered_out, 'number');
+      });
+
+      it('keeps only events on the requested local days and times', async () => {
+        const isWeekendEvening = local => {
+          const day = new Date(`${local.slice(0, 10)}T00:00:00Z`).getUTCDay();
+          const hour = Number(local.slice(11, 13));
+          return (day === 0 || day === 6) && hour >= 17 && hour < 22;
+        };
+        const chicago = fake.dataset.events.filter(candidate => candidate.venue.city === 'Chicago');
+        const expected = chicago.filter(candidate => isWeekendEvening(candidate.datetime_local)).map(candidate => candidate.id);
+        assert.ok(expected.length > 0 && expected.length < chicago.length, 'fixture should mix weekend evenings with other times');
+
+        const output = await callTool(client, 'find_events', {
+          venue_city: 'Chicago',
+          days_of_week: ['weekend'],
+          times_of_day: ['evening'],
+          fetch_all: true,
+        });
+
+        assert.deepEqual(output.events.map(item => item.id).sort(), [...expected].sort());
+        assert.equal(output.filtered_out, chicago.length - expected.length);
+      });
+
+      it('filters each page and its raw output, leaving sparse pages to the cursor', async () => {
+        const chicago = fake.dataset.events.filter(candidate => candidate.venue.city === 'Chicago');
+        const expected = chicago.filter(candidate => new Date(`${candidate.datetime_local.slice(0, 10)}T00:00:00Z`).getUTCDay() === 6);
+
+        const ids = [];
+        let cursor;
+        do {
+          const args = { venue_city: 'Chicago', days_of_week: ['saturday'], per_page: 3, format: 'json', ...(cursor ? { cursor } : {}) };
+          const result = await client.callTool({ name: 'find_events', arguments: args });
+          assert.ok(!result.isError, result.content[0].text);
+          const output = result.structuredContent;
+          const raw = JSON.parse(result.content[0].text);
+
+          assert.deepEqual(raw.events.map(event => event.id), output.events.map(event => event.id));
+          assert.equal(output.events.length + output.filtered_out, Math.min(3, chicago.length - 3 * (output.page - 1)));
+          ids.push(...output.events.map(event => event.id));
+          cursor = output.next_cursor;
+        } while (cursor);
+
+        assert.deepEqual(ids.sort(), expected.map(event => event.id).sort());
+      });
+
+      it('sorts by distance from coordinates and reports each distance', async () => {
+        const origin = { lat: 41.8807, lon: -87.6742 };
+        const output = await callTool(client, 'find_events', { ...origin, range: '1000mi', sort: 'distance', per_page: 20 });
+
+        const byId = new Map(fake.dataset.events.map(event => [event.id, event]));
+        assert.ok(output.events.length > 1);
+        for (const event of output.events) {
+          const expected = Math.round(haversineMiles(origin, byId.get(event.id).venue.location) * 10) / 10;
+          assert.ok(Math.abs(event.distance - expected) <= 0.1, `distance ${event.distance} for event ${event.id}, expected ${expected}`);
+        }
+        const distances = output.events.map(event => event.distance);
+        assert.deepEqual(distances, [...distances].sort((a, b) => a - b));
+      });
+
+      it('measures distance from the location SeatGeek resolved for a postal code', async () => {
+        const miles = await callTool(client, 'find_events', { postal_code: '60612', range: '500mi', sort: 'distance', per_page: 10 });
+        const kilometers = await callTool(client, 'find_events', { postal_code: '60612', range: '500mi', sort: 'distance', per_page: 10, distance_unit: 'km' });
+
+        const distances = miles.events.map(event => event.distance);
+        assert.ok(distances.every(distance => typeof distance === 'number'));
+        assert.deepEqual(distances, [...distances].sort((a, b) => a - b));
+        for (const [index, event] of kilometers.events.entries()) {
+          assert.ok(Math.abs(event.distance - miles.events[index].distance * 1.609344) <= 0.2);
+        }
+      });
+
+      it('rejects sort distance without a location it can measure from', async () => {
+        const missing = await callToolError(client, 'find_events', { venue_city: 'Chicago', sort: 'distance' });
+        assert.equal(missing.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(missing.details.fields.map(field => field.field), ['sort']);
+        assert.equal(fake.requests.length, 0);
+
+        const unresolved = await callToolError(client, 'find_events', { postal_code: '00000', sort: 'distance' });
+        assert.equal(unresolved.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(unresolved.details.fields.map(field => field.field), ['sort']);
+
+        const recommendations = await callToolError(client, 'find_event_recommendations', { q: 'the', sort: 'distance' });
+        assert.deepEqual(recommendations.details.fields.map(field => field.field), ['sort']);
+      });
+
+      it('rejects a min_price above max_price before calling SeatGeek', async () => {
+        const output = await callToolError(client, 'find_events', { venue_city: 'Chicago', min_price: 80, max_price: 40 });
+        assert.equal(output.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(output.details.fields.map(field => field.field), ['max_price']);
+        assert.equal(fake.requests.length, 0);
+
+        await callTool(client, 'find_events', { venue_city: 'Chicago', min_price: 40, max_price: 40 });
+        const [request] = upstreamRequests('/events');
+        assert.equal(request.query['lowest_price.gte'], '40');
+        assert.equal(request.query['lowest_price.lte'], '40');
+      });
+
+      it('rejects an invalid local bound', async () => {
+        const output = await callToolError(client, 'find_events', { venue_city: 'Chicago', start_local: '2026-02-30' });
+        assert.equal(output.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(output.details.fields.map(field => field.field), ['start_local']);
+      });
+
+      it('retries rate limits and server errors before succeeding', async () => {
+        fake.inject({ status: 429, retryAfter: 0, path: '/events' });
+        fake.inject({ status: 503, path: '/events' });
+
+        const output = await callTool(client, 'find_events', { venue_city: 'Denver', per_page: 3 });
+        assert.equal(upstreamRequests('/events').length, 3);
+        assert.ok(output.events.length > 0);
+      });
+
+      it('returns an error payload when the upstream request fails', async () => {
+        fake.inject({ status: 400, path: '/events' });
+
+        const output = await callToolError(client, 'find_events', { venue_city: 'Denver' });
+        assert.equal(output.error, 'Failed to fetch events');
+        assert.equal(output.details.error, 'UPSTREAM_CLIENT_ERROR');
+        assert.equal(output.details.status, 400);
+        assert.match(output.details.message, /400/);
+        assert.equal(output.details.endpoint, `${baseUrl}/events`);
+        // Client errors are not retried
+        assert.equal(upstreamRequests('/events').length, 1);
+      });
+    });
+
+    describe('find_event_recommendations', () => {
+      it('seeds recommendations with the first event of the matching performer', async () => {
+        const performer = fake.dataset.performers.find(candidate => candidate.type === 'band' && candidate.num_upcoming_events > 0);
+        const output = await callTool(client, 'find_event_recommendations', { q: performer.name, per_page: 5, start_utc: '2026-01-01T00:00:00' });
+
+        const slugSearch = upstreamRequests('/events').find(request => request.query['performers.slug'] === performer.slug);
+        assert.ok(slugSearch, 'missing per-performer event search');
+
+        const [request] = upstreamRequests('/recommendations');
+        assert.ok(request.query['events.id'], 'recommendations are missing the events.id seed');
+        assert.equal(request.query['datetime_utc.gte'], '2026-01-01T00:00:00');
+        assert.equal(request.query.per_page, '5');
+        assert.equal(request.query.page, '1');
+
+        assertPageInfo(output);
+        assert.ok(output.events.length > 0 && output.events.length <= 5);
+        for (const event of output.events) {
+          assertCondensedEvent(event);
+        }
+        assert.ok(output.seed_search.searched.includes(performer.slug));
+        assert.deepEqual(output.seed_search.failed, []);
+        assert.equal(output.seed_search.lookup_error, null);
+        assert.equal(output.seed_search.seed_event_id, Number(request.query['events.id']));
+      });
+
+      it('reports performer event searches that failed', async () => {
+        const slugs = performersMatching('the', 10).map(performer => performer.slug);
+        fake.inject({ status: 400, path: '/events' });
+
+        const output = await callTool(client, 'find_event_recommendations', { q: 'the', per_page: 10 });
+
+        assert.deepEqual(output.seed_search.searched, slugs);
+        assert.equal(output.seed_search.failed.length, 1);
+        assert.ok(slugs.includes(output.seed_search.failed[0].slug));
+        assert.match(output.seed_search.failed[0].error, /400/);
+        assert.equal(upstreamRequests('/recommendations').length, 1);
+      });
+
+      it('notes failed seed searches in markdown', async () => {
+        const slugs = performersMatching('the', 10).map(performer => performer.slug);
+        fake.inject({ status: 400, path: '/events' });
+
+        const result = await client.callTool({ name: 'find_event_recommendations', arguments: { q: 'the', per_page: 10, format: 'markdown' } });
+
+        assert.ok(!result.isError, result.content[0].text);
+        const [failure] = result.structuredContent.seed_search.failed;
+        assert.ok(result.content[0].text.startsWith(`_Events for 1 of ${slugs.length} performers could not be fetched while picking the seed event: \`${failure.slug}\` (`));
+      });
+    });
+
+    describe('get_venue_calendar', () => {
+      it('reports the resolved range for a when phrase', async () => {
+        setClock(() => new Date('2026-01-14T18:00:00Z'));
+        try {
+          const venue = fake.dataset.events[0].venue;
+          const output = await callTool(client, 'get_venue_calendar', { venue_id: venue.id, when: 'next month', timezone: 'America/Chicago' });
+
+          assert.equal(output.start_utc, '2026-02-01T06:00:00');
+          assert.equal(output.end_utc, '2026-03-01T05:59:59');
+          assert.equal(output.resolved_dates.start_local, '2026-02-01T00:00:00');
+          const requests = upstreamRequests('/events');
+          assert.ok(requests.length > 0);
+          for (const request of requests) {
+            assert.equal(request.query['datetime_utc.gte'], '2026-02-01T06:00:00');
+          }
+        } finally {
+          setClock(null);
+        }
+      });
+    });
+
+    describe('get_event', () => {
+      it('looks up an event by its slug or SeatGeek url', async () => {
+        const event = fake.dataset.events[0];
+        const byId = await callTool(client, 'get_event', { event_id: event.id });
+        const slug = new URL(event.url).pathname.slice(1);
+
+        assert.deepEqual(await callTool(client, 'get_event', { event_slug: slug }), byId);
+        assert.deepEqual(await callTool(client, 'get_event', { event_slug: `${event.url}?aid=123` }), byId);
+        assert.equal(upstreamRequests(`/events/${event.id}`).length, 3);
+      });
+
+      it('rejects a slug without an event id and a call with neither', async () => {
+        const invalid = await callToolError(client, 'get_event', { event_slug: 'taylor-swift-tickets' });
+        assert.equal(invalid.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(invalid.details.fields.map(field => field.field), ['event_slug']);
+
+        const missing = await callToolError(client, 'get_event', {});
+        assert.deepEqual(missing.details.fields.map(field => field.field), ['event_id']);
+        assert.equal(fake.requests.length, 0);
+      });
+    });
+
+    describe('get_performer', () => {
+      it('returns the performer with genres and their next upcoming events', async () => {
+        const performer = fake.dataset.performers.find(candidate => candidate.genres.length > 0 && candidate.num_upcoming_events >= 3);
+        const upcoming = fake.dataset.events
+          .filter(event => event.performers.some(item => item.id === performer.id))
+          .sort((a, b) => a.datetime_utc.localeCompare(b.datetime_utc))
+          .slice(0, 2);
+
+        const bySlug = await callTool(client, 'get_performer', { performer_slug: performer.slug, upcoming_events: 2 });
+        assert.equal(bySlug.id, performer.id);
+        assert.equal(bySlug.name, performer.name);
+        assert.deepEqual(bySlug.genres, performer.genres.map(genre => genre.name));
+        assert.equal(bySlug.num_upcoming_events, performer.num_upcoming_events);
+        assert.deepEqual(bySlug.upcoming_events.map(event => event.id), upcoming.map(event => event.id));
+        bySlug.upcoming_events.forEach(assertCondensedEvent);
+
+        fake.reset();
+        const byId = await callTool(client, 'get_performer', { performer_id: performer.id, upcoming_events: 0 });
+        assert.equal(byId.slug, performer.slug);
+        assert.deepEqual(byId.upcoming_events, []);
+        assert.equal(upstreamRequests('/events').length, 0);
+      });
+    });
+
+    describe('analyze_event_prices', () => {
+      it('analyzes each event and picks the cheapest way in', async () => {
+        const events = fake.dataset.events.slice(0, 4);
+        const cheapest = events.reduce((best, event) => event.stats.lowest_price < best.stats.lowest_price ? event : best);
+
+        const output = await callTool(client, 'analyze_event_prices', { event_ids: [...events.map(event => event.id), events[0].id] });
+
+        assert.deepEqual(output.events.map(event => event.event_id), events.map(event => event.id));
+        for (const [index, analysis] of output.events.entries()) {
+          const { stats } = events[index];
+          assert.equal(analysis.cheapest_entry, stats.lowest_price);
+          assert.equal(analysis.median_price, stats.median_price);
+          assert.equal(analysis.highest_price, stats.highest_price);
+          assert.equal(analysis.price_spread, stats.highest_price - stats.lowest_price);
+          assert.equal(analysis.listing_count, stats.listing_count);
+        }
+        assert.equal(output.cheapest_entry.event_id, cheapest.id);
+        assert.equal(output.cheapest_entry.price, cheapest.stats.lowest_price);
+        assert.deepEqual(output.not_found, []);
+        assert.deepEqual(output.failed, []);
+        // Repeated ids are fetched once
+        assert.equal(fake.requests.length, events.length);
+      });
+
+      it('lists unknown event ids as not found', async () => {
+        const event = fake.dataset.events[0];
+        const output = await callTool(client, 'analyze_event_prices', { event_ids: [event.id, 1] });
+
+        assert.deepEqual(output.events.map(item => item.event_id), [event.id]);
+        assert.deepEqual(output.not_found, [1]);
+        assert.equal(output.cheapest_entry.event_id, event.id);
+      });
+
+      it('reports events that could not be fetched without failing the others', async () => {
+        const [failing, ...others] = fake.dataset.events.slice(0, 3);
+        fake.inject({ status: 503, path: `/events/${failing.id}` }, 3);
+
+        const result = await client.callTool({ name: 'analyze_event_prices', arguments: { event_ids: [failing.id, ...others.map(event => event.id)], format: 'markdown' } });
+
+        assert.ok(!result.isError, result.content[0].text);
+        const output = result.structuredContent;
+        assert.deepEqual(output.events.map(item => item.event_id), others.map(event => event.id));
+        assert.deepEqual(output.failed.map(item => item.event_id), [failing.id]);
+        assert.deepEqual(output.not_found, []);
+        assert.match(result.content[0].text, new RegExp(`_Could not be fetched: ${failing.id} \\(`));
+      });
+
+      it('keeps at most SEATGEEK_FANOUT_CONCURRENCY requests in flight', async () => {
+        const events = fake.dataset.events.slice(0, 6);
+        const previous = process.env.SEATGEEK_FANOUT_CONCURRENCY;
+        process.env.SEATGEEK_FANOUT_CONCURRENCY = '2';
+        // Hold every response so the fan-out has to overlap requests
+        fake.inject({ delayMs: 50, path: '/events/' }, events.length);
+        try {
+          const output = await callTool(client, 'analyze_event_prices', { event_ids: events.map(event => event.id), cache: 'bypass' });
+
+          assert.equal(output.events.length, events.length);
+          assert.equal(fake.requests.length, events.length);
+          assert.equal(fake.maxInFlight, 2);
+        } finally {
+          if (previous === undefined) {
+            delete process.env.SEATGEEK_FANOUT_CONCURRENCY;
+          } else {
+            process.env.SEATGEEK_FANOUT_CONCURRENCY = previous;
+          }
+        }
+      });
+    });
+
+    describe('find_performer_recommendations', () => {
+      it('recommends other performers from the matching performer ids', async () => {
+        const performer = fake.dataset.performers[0];
+        const output = await callTool(client, 'find_performer_recommendations', { performer_q: performer.name, per_page: 5 });
+
+        const [request] = upstreamRequests('/recommendations/performers');
+        assert.ok(request.query.performer_ids.split(',').includes(String(performer.id)));
+        assert.equal(request.query.per_page, '5');
+
+        assertPageInfo(output);
+        assert.ok(output.performers.length > 0 && output.performers.length <= 5);
+        for (const recommended of output.performers) {
+          assert.equal(typeof recommended.id, 'number');
+          assert.equal(typeof recommended.slug, 'string');
+          assert.notEqual(recommended.id, performer.id);
+        }
+      });
+
+      it('lists recommended performers with their genres in markdown', async () => {
+        const performer = fake.dataset.performers.find(candidate => candidate.genres.length > 0);
+        const result = await client.callTool({ name: 'find_performer_recommendations', arguments: { performer_q: performer.name, per_page: 10, format: 'markdown' } });
+
+        assert.ok(!result.isError, result.content[0].text);
+        const withGenres = result.structuredContent.performers.filter(recommended => recommended.genres.length > 0);
+        assert.ok(withGenres.length > 0, 'fixture should recommend performers with genres');
+        for (const recommended of withGenres) {
+          assert.ok(result.content[0].text.includes(`\`${recommended.slug}\` — ${recommended.genres.join(', ')}`));
+        }
+      });
+    });
+
+    describe('retrieve_event_venue_information', () => {
+      it('returns sections and rows for an event', async () => {
+        const event = fake.dataset.events[0];
+        const output = await callTool(client, 'retrieve_event_venue_information', { event_id: event.id });
+
+        assert.equal(upstreamRequests(`/events/section_info/${event.id}`).length, 1);
+        assert.deepEqual(output.sections.floor, ['a', 'b', 'c']);
+        assert.deepEqual(output, { sections: fake.dataset.sections.get(event.id) });
+      });
+
+      it('summarizes the rows of each section as markdown', async () => {
+        const event = fake.dataset.events[0];
+        const result = await client.callTool({ name: 'retrieve_event_venue_information', arguments: { event_id: event.id, format: 'markdown' } });
+
+        assert.ok(!result.isError, result.content[0].text);
+        assert.match(result.content[0].text, /^- \*\*floor\*\*: 3 rows \(a–c\)$/m);
+        assert.deepEqual(result.structuredContent, { sections: fake.dataset.sections.get(event.id) });
+      });
+
+      it('returns an error payload for an unknown event', async () => {
+        const output = await callToolError(client, 'retrieve_event_venue_information', { event_id: 1 });
+
+        assert.equal(output.error, 'Failed to fetch event venue information');
+        assert.equal(output.details.error, 'NOT_FOUND');
+        assert.equal(output.details.status, 404);
+        assert.match(output.suggestion, /find_events/);
+      });
+    });
+
+    describe('prompts', () => {
+      it('uses only registered tools and arguments in the examples and workflows', async () => {
+        const { tools } = await client.listTools();
+        const schemas = new Map(tools.map(tool => [tool.name, tool.inputSchema]));
+        const calls = [
+          ...exampleGroups.flatMap(group => group.examples),
+          ...workflows.flatMap(workflow => workflow.steps),
+        ];
+        for (const call of calls) {
+          assert.ok(schemas.has(call.tool), `${call.tool} is not registered`);
+          for (const key of Object.keys(call.args)) {
+            assert.ok(key in schemas.get(call.tool).properties, `${call.tool} has no argument ${key}`);
+          }
+        }
+      });
+
+      it('lists a prompt for each workflow with its arguments', async () => {
+        const { prompts } = await client.listPrompts();
+        assert.deepEqual(prompts.map(prompt => prompt.name), workflows.map(workflow => workflow.name));
+        const cheapest = prompts.find(prompt => prompt.name === 'find_cheapest_show');
+        assert.deepEqual(cheapest.arguments.map(argument => [argument.name, argument.required]), [['performer', true], ['region', false]]);
+      });
+
+      it('fills the workflow arguments into the message sequence', async () => {
+        const { messages } = await client.getPrompt({ name: 'plan_night_out', arguments: { city: 'Chicago', date: '2026-02-14' } });
+        assert.deepEqual(messages.map(message => message.role), ['user', 'assistant', 'user']);
+        assert.equal(messages[0].content.text, 'Plan a night out in Chicago on 2026-02-14.');
+        assert.match(messages[1].content.text, /^1\. Call find_events with \{"venue_city": "Chicago", "when": "2026-02-14", /m);
+        assert.doesNotMatch(messages[1].content.text, /\{(city|date)\}/);
+      });
+
+      it('drops optional arguments that were not given', async () => {
+        const { messages } = await client.getPrompt({ name: 'find_cheapest_show', arguments: { performer: 'Phoebe Bridgers' } });
+        assert.equal(messages[0].content.text, 'Find the cheapest way to see Phoebe Bridgers.');
+        assert.doesNotMatch(messages[1].content.text, /venue_state/);
+      });
+    });
+
+    describe('response cache', () => {
+      afterEach(() => {
+        setResponseCache(null);
+      });
+
+      it('serves repeated calls from the cache, skips it on bypass and reports the counts', async () => {
+        setResponseCache(createLruCache());
+        const before = getCacheStats();
+        const args = { venue_city: 'Denver', per_page: 3 };
+
+        const first = await callTool(client, 'find_events', args);
+        const second = await callTool(client, 'find_events', args);
+        assert.deepEqual(second.events, first.events);
+        assert.equal(upstreamRequests('/events').length, 1);
+
+        await callTool(client, 'find_events', { ...args, cache: 'bypass' });
+        assert.equal(upstreamRequests('/events').length, 2);
+
+        const after = getCacheStats();
+        assert.equal(after.misses - before.misses, 1);
+        assert.equal(after.hits - before.hits, 1);
+        assert.equal(after.bypasses - before.bypasses, 1);
+        assert.equal(after.size, 1);
+
+        const { contents } = await client.readResource({ uri: 'seatgeek://server/cache-stats' });
+        assert.deepEqual(JSON.parse(contents[0].text), after);
+      });
+    });
+
+    describe('single-flight', () => {
+      afterEach(() => {
+        setResponseCache(null);
+      });
+
+      it('shares one upstream request between concurrent identical calls', async () => {
+        fake.inject({ delayMs: 100, path: '/events' }, 1);
+        const args = { venue_city: 'Denver', per_page: 3 };
+
+        const [first, second] = await Promise.all([
+          callTool(client, 'find_events', args),
+          callTool(client, 'find_events', args),
+        ]);
+        assert.deepEqual(second.events, first.events);
+        assert.equal(upstreamRequests('/events').length, 1);
+      });
+
+      it('does not let a bypass call join an in-flight cached call', async () => {
+        setResponseCache(createLruCache());
+        fake.inject({ delayMs: 100, path: '/events' }, 1);
+        const args = { venue_city: 'Denver', per_page: 3 };
+
+        await Promise.all([
+          callTool(client, 'find_events', args),
+          callTool(client, 'find_events', { ...args, cache: 'bypass' }),
+        ]);
+        assert.equal(upstreamRequests('/events').length, 2);
+      });
+    });
+
+    describe('cassette', () => {
+      let dir;
+
+      beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'seatgeek-cassette-'));
+      });
+
+      afterEach(async () => {
+        setCassetteConfig({ mode: 'off' });
+        await fs.rm(dir, { recursive: true, force: true });
+      });
+
+      it('replays recorded responses and errors without reaching the API', async () => {
+        const eventId = fake.dataset.events[0].id;
+        setCassetteConfig({ mode: 'record', dir });
+        const recorded = await callTool(client, 'get_event', { event_id: eventId });
+        const recordedMissing = await callToolError(client, 'get_event', { event_id: 1 });
+        assert.equal(recordedMissing.details.error, 'NOT_FOUND');
+        assert.equal((await fs.readdir(dir)).length, 2);
+
+        fake.reset();
+        setCassetteConfig({ mode: 'replay', dir });
+        assert.deepEqual(await callTool(client, 'get_event', { event_id: eventId }), recorded);
+        const replayedMissing = await callToolError(client, 'get_event', { event_id: 1 });
+        assert.equal(replayedMissing.details.error, 'NOT_FOUND');
+        assert.equal(replayedMissing.details.message, recordedMissing.details.message);
+        assert.equal(fake.requests.length, 0);
+      });
+
+      it('fails a request with no recording instead of reaching the API', async () => {
+        setCassetteConfig({ mode: 'replay', dir });
+        const output = await callToolError(client, 'get_event', { event_id: fake.dataset.events[0].id });
+        assert.match(output.details.message, /No recorded response for GET \/events\//);
+        assert.equal(fake.requests.length, 0);
+      });
+    });
+
+    describe('generate_event_link', () => {
+      afterEach(() => {
+        process.env.SEATGEEK_TRACK_LINKS = '';
+      });
+
+      it('replaces tracking parameters already on a supplied url', async () => {
+        const output = await callTool(client, 'generate_event_link', {
+          url: 'https://seatgeek.com/band-tickets/chicago/concert/123?aid=old&utm_source=old&utm_term=old&quantity=8&ref=keep',
+          utm_source: 'chat',
+          quantity: 2,
+        });
+
+        const url = new URL(output.url);
+        assert.equal(url.searchParams.get('aid'), null);
+        assert.equal(url.searchParams.get('utm_term'), null);
+        assert.deepEqual(url.searchParams.getAll('utm_source'), ['chat']);
+        assert.deepEqual(url.searchParams.getAll('quantity'), ['2']);
+        assert.equal(url.searchParams.get('ref'), 'keep');
+        assert.equal(fake.requests.length, 0);
+      });
+
+      it('only tracks every link when SEATGEEK_TRACK_LINKS is a true value', () => {
+        for (const value of ['1', 'true', 'YES', 'on']) {
+          process.env.SEATGEEK_TRACK_LINKS = value;
+          assert.equal(getAffiliateConfig().trackAllLinks, true, value);
+        }
+        for (const value of ['', '0', 'false', 'no', 'off']) {
+          process.env.SEATGEEK_TRACK_LINKS = value;
+          assert.equal(getAffiliateConfig().trackAllLinks, false, value);
+        }
+      });
+    });
+
+    describe('resources', () => {
+      it('links tool results to event resources that can be read back', async () => {
+        const result = await client.callTool({ name: 'find_events', arguments: { venue_city: 'Boston', per_page: 3 } });
+        const links = result.content.filter(item => item.type === 'resource_link');
+        const events = result.structuredContent.events;
+        assert.deepEqual(links.map(link => link.uri), events.map(event => `seatgeek://event/${event.id}`));
+        assert.equal(links[0].mimeType, 'application/json');
+
+        const { contents } = await client.readResource({ uri: links[0].uri });
+        assert.equal(contents[0].mimeType, 'application/json');
+        assert.deepEqual(JSON.parse(contents[0].text), events[0]);
+      });
+
+      it('reads performers by slug and venues by id', async () => {
+        const event = fake.dataset.events[0];
+        const performer = await client.readResource({ uri: `seatgeek://performer/${event.performers[0].slug}` });
+        assert.equal(JSON.parse(performer.contents[0].text).id, event.performers[0].id);
+
+        const venue = await client.readResource({ uri: `seatgeek://venue/${event.venue.id}` });
+        const document = JSON.parse(venue.contents[0].text);
+        assert.equal(document.id, event.venue.id);
+        assert.equal(document.timezone, event.venue.timezone);
+      });
+
+      it('lists recently returned entities newest first, a page at a time', async () => {
+        await callTool(client, 'find_events', { per_page: 50 });
+        const venues = await callTool(client, 'search_venues', { per_page: 10 });
+
+        const first = await client.listResources();
+        assert.equal(first.resources.length, 50);
+        assert.deepEqual(first.resources.slice(0, 10).map(resource => resource.uri), venues.venues.map(venue => `seatgeek://venue/${venue.id}`).reverse());
+        assert.ok(first.nextCursor);
+
+        const second = await client.listResources({ cursor: first.nextCursor });
+        const uris = [...first.resources, ...second.resources].map(resource => resource.uri);
+        assert.equal(new Set(uris).size, uris.length);
+        assert.ok(second.resources.length > 0);
+      });
+
+      it('lists only the entities returned to the same server instance', async () => {
+        const [first, second] = await Promise.all([connect(), connect()]);
+        try {
+          const venues = await callTool(first.client, 'search_venues', { per_page: 3 });
+          assert.ok(venues.venues.length > 0);
+
+          const firstList = await first.client.listResources();
+          assert.deepEqual(firstList.resources.map(resource => resource.uri), venues.venues.map(venue => `seatgeek://venue/${venue.id}`).reverse());
+          const secondList = await second.client.listResources();
+          assert.deepEqual(secondList.resources, []);
+        } finally {
+          await Promise.all([first.close(), second.close()]);
+        }
+      });
+
+      it('rejects unknown entities as invalid params', async () => {
+        await assert.rejects(client.readResource({ uri: 'seatgeek://event/1' }), error => {
+          assert.equal(error.code, -32602);
+          assert.match(error.message, /\(NOT_FOUND\)/);
+          return true;
+        });
+      });
+    });
+
+    describe('error codes', () => {
+      afterEach(() => {
+        process.env.SEATGEEK_CLIENT_ID = CLIENT_ID;
+      });
+
+      it('reports rate limiting once retries are exhausted', async () => {
+        fake.inject({ status: 429, retryAfter: 0, path: '/events' }, 3);
+
+        const output = await callToolError(client, 'find_events', { venue_city: 'Denver' });
+        assert.equal(output.details.error, 'RATE_LIMITED');
+        assert.equal(output.details.retry_after_seconds, 0);
+      });
+
+      it('distinguishes a missing client id from an invalid one', async () => {
+        delete process.env.SEATGEEK_CLIENT_ID;
+        const missing = await callToolError(client, 'find_events', { venue_city: 'Denver' });
+        assert.equal(missing.details.error, 'AUTH_MISSING');
+        assert.match(missing.suggestion, /SEATGEEK_CLIENT_ID/);
+
+        process.env.SEATGEEK_CLIENT_ID = 'not-the-right-id';
+        const invalid = await callToolError(client, 'find_events', { venue_city: 'Denver' });
+        assert.equal(invalid.details.error, 'AUTH_INVALID');
+      });
+
+      it('reports argument problems per field', async () => {
+        const output = await callToolError(client, 'get_performer', {});
+        assert.equal(output.details.error, 'VALIDATION_ERROR');
+        assert.deepEqual(output.details.fields.map(field => field.field), ['performer_id']);
+        assert.equal(fake.requests.length, 0);
+      });
+
+      it('reports wrong types and out-of-range values as field errors instead of protocol errors', async () => {
+        const cases = [
+          ['find_events', { per_page: 500 }, 'per_page'],
+          ['find_events', { per_page: 'ten' }, 'per_page'],
+          ['find_events', { sort: 'nearest' }, 'sort'],
+          ['get_event', { event_id: 'abc' }, 'event_id'],
+          ['get_event', { event_id: -3 }, 'event_id'],
+          ['get_performer', { performer_slug: 'anyone', upcoming_events: 2.5 }, 'upcoming_events'],
+        ];
+        for (const [name, args, field] of cases) {
+          const output = await callToolError(client, name, args);
+          assert.equal(output.details.error, 'VALIDATION_ERROR', `${name} ${JSON.stringify(args)}`);
+          assert.deepEqual(output.details.fields.map(item => item.field), [field]);
+        }
+        assert.equal(fake.requests.length, 0);
+      });
+
+      it('reports a wrongly typed value for every argument of every tool', async () => {
+        const wrongValue = property => {
+          if (property.type === 'string') {
+            return 42;
+          }
+          return property.type === 'array' ? 'not-an-array' : 'not-a-number';
+        };
+        const { tools } = await client.listTools();
+        for (const tool of tools) {
+          for (const [field, property] of Object.entries(tool.inputSchema.properties)) {
+            const result = await client.callTool({ name: tool.name, arguments: { [field]: wrongValue(property) } });
+            assert.equal(result.isError, true, `${tool.name}.${field} accepted a wrongly typed value`);
+            const output = JSON.parse(result.content[0].text);
+            assert.equal(output.details.error, 'VALIDATION_ERROR', `${tool.name}.${field}`);
+            assert.ok(output.details.fields.some(item => item.field.split('.')[0] === field), `${tool.name}.${field} is missing from details.fields`);
+          }
+        }
+        assert.equal(fake.requests.length, 0);
+      });
+
+      it('keeps the declared argument types in tools/list', async () => {
+        const { tools } = await client.listTools();
+        const perPage = tools.find(tool => tool.name === 'find_events').inputSchema.properties.per_page;
+        assert.equal(perPage.type, 'number');
+        assert.equal(perPage.maximum, 50);
+        assert.match(perPage.description, /per page/);
+      });
+    });
+  });
+}
+
+describe('LRU cache', () => {
+  it('expires entries once their TTL has passed', () => {
+    let time = 1000;
+    const cache = createLruCache(10, () => time);
+    cache.set('a', 1, 500);
+
+    time = 1499;
+    assert.equal(cache.get('a'), 1);
+    time = 1500;
+    assert.equal(cache.get('a'), undefined);
+    assert.equal(cache.size, 0);
+
+    cache.set('b', 2, 0);
+    assert.equal(cache.get('b'), undefined, 'a zero TTL is not cached');
+  });
+
+  it('evicts the least recently used entry at the size cap', () => {
+    const before = getCacheStats().evictions;
+    const cache = createLruCache(2, () => 0);
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+    // Reading a makes b the least recently used
+    cache.get('a');
+    cache.set('c', 3, 1000);
+
+    assert.equal(cache.get('b'), undefined);
+    assert.equal(cache.get('a'), 1);
+    assert.equal(cache.get('c'), 3);
+    assert.equal(cache.size, 2);
+    assert.equal(getCacheStats().evictions - before, 1);
+  });
+
+  it('keys equivalent queries the same', () => {
+    assert.equal(cacheKey('/events', { b: 2, a: 'x y', empty: '', missing: null }), '/events?a=x%20y&b=2');
+    assert.equal(cacheKey('/events', { a: 'x y', b: 2 }), cacheKey('/events', { b: 2, a: 'x y' }));
+    assert.equal(cacheKey('/events', {}), '/events');
+  });
+});
+
+describe('cassette files', () => {
+  let dir;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'seatgeek-cassette-'));
+    setCassetteConfig({ dir });
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('names fixtures by path and a sha1 of the normalized query', async () => {
+    await recordResponse('/events', { q: 'jazz', per_page: 5 }, 200, { events: [] });
+    const hash = createHash('sha1').update('/events?per_page=5&q=jazz').digest('hex').slice(0, 12);
+    assert.deepEqual(await fs.readdir(dir), [`events-${hash}.json`]);
+
+    // The same query in another order replays the same fixture
+    assert.deepEqual(await replayResponse('/events', { per_page: 5, q: 'jazz' }), { events: [] });
+  });
+
+  it('rethrows recorded HTTP errors with their status', async () => {
+    await recordResponse('/events/1', {}, 503, { message: 'Down for maintenance' });
+    await assert.rejects(replayResponse('/events/1', {}), error => {
+      assert.equal(error.response.status, 503);
+      assert.deepEqual(error.response.data, { message: 'Down for maintenance' });
+      return true;
+    });
+  });
+
+  it('throws CassetteMissError for a request with no recording', async () => {
+    await assert.rejects(replayResponse('/venues/7', {}), error => {
+      assert.ok(error instanceof CassetteMissError);
+      assert.equal(error.key, '/venues/7');
+      assert.equal(error.file, path.join(dir, `venues_7-${createHash('sha1').update('/venues/7').digest('hex').slice(0, 12)}.json`));
+      return true;
+    });
+  });
+});
+
+describe('token bucket', () => {
+  // Sleeping advances the fake time at once and records how long each wait was
+  const fakeClock = () => ({
+    time: 0,
+    sleeps: [],
+    now() {
+      return this.time;
+    },
+    async sleep(ms) {
+      this.sleeps.push(ms);
+      this.time += ms;
+    },
+  });
+
+  it('lets a full burst through at once, then spaces requests at the refill rate', async () => {
+    const clock = fakeClock();
+    const limiter = createTokenBucket(2, 3, clock);
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    assert.deepEqual(clock.sleeps, []);
+
+    await limiter.acquire();
+    await limiter.acquire();
+    assert.deepEqual(clock.sleeps, [500, 500]);
+    assert.equal(clock.time, 1000);
+  });
+
+  it('refills over time without exceeding the burst size', async () => {
+    const clock = fakeClock();
+    const limiter = createTokenBucket(4, 2, clock);
+    await limiter.acquire();
+    await limiter.acquire();
+
+    // A quarter second refills exactly one token
+    clock.time += 250;
+    await limiter.acquire();
+    assert.deepEqual(clock.sleeps, []);
+
+    // A long idle period still only allows a burst of two
+    clock.time += 60000;
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    assert.deepEqual(clock.sleeps, [250]);
+  });
+
+  it('serves waiters in the order they asked', async () => {
+    const limiter = createTokenBucket(1, 1, fakeClock());
+    const order = [];
+    await Promise.all([1, 2, 3, 4].map(id => limiter.acquire().then(() => order.push(id))));
+    assert.deepEqual(order, [1, 2, 3, 4]);
+  });
+});
+
+after(async () => {
+  await fake.stop();
+});